@@ -0,0 +1,308 @@
+import { createReadStream, existsSync, promises as fs } from 'fs';
+import { createInterface } from 'readline';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import os from 'os';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { SupabaseClient } from './supabase-client.js';
+import { ToolEnvelope } from './tool-output.js';
+
+/**
+ * Audit Log
+ *
+ * Append-only record of every tool invocation, written as JSON lines to a
+ * local file and optionally mirrored into a Postgres table through the
+ * service-role client. Sensitive arguments are redacted before they are
+ * written anywhere.
+ */
+export class AuditLog {
+  private directoryReady = false;
+
+  constructor(private config: AuditLogConfig) {}
+
+  /**
+   * Whether invocations are being recorded
+   */
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Path of the JSON lines file
+   */
+  getFilePath(): string {
+    return this.config.filePath;
+  }
+
+  /**
+   * Append an entry to the log file and mirror it to Postgres if configured.
+   * Failures are reported on stderr but never fail the tool call.
+   */
+  async record(entry: AuditEntry, supabaseClient?: SupabaseClient): Promise<void> {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    try {
+      if (!this.directoryReady) {
+        await fs.mkdir(path.dirname(this.config.filePath), { recursive: true });
+        this.directoryReady = true;
+      }
+      await fs.appendFile(this.config.filePath, JSON.stringify(entry) + '\n', 'utf-8');
+    } catch (error) {
+      console.error('Failed to write audit log entry:', error);
+    }
+
+    if (this.config.table && supabaseClient) {
+      try {
+        const { error } = await supabaseClient.getAdminClient().from(this.config.table).insert(entry);
+        if (error) {
+          console.error(`Failed to mirror audit entry into ${this.config.table}:`, error.message);
+        }
+      } catch (error) {
+        console.error(`Failed to mirror audit entry into ${this.config.table}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Search the log file, newest entries first
+   */
+  async query(filters: AuditQuery = {}): Promise<{ entries: AuditEntry[]; scanned: number }> {
+    const since = parseTimeFilter(filters.since, 'since');
+    const until = parseTimeFilter(filters.until, 'until');
+    if (!existsSync(this.config.filePath)) {
+      return { entries: [], scanned: 0 };
+    }
+
+    const toolPattern = filters.tool
+      ? new RegExp(`^${filters.tool.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`, 'i')
+      : null;
+    const contains = filters.contains?.toLowerCase();
+
+    const matches: AuditEntry[] = [];
+    let scanned = 0;
+
+    const lines = createInterface({
+      input: createReadStream(this.config.filePath, { encoding: 'utf-8' }),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+      scanned++;
+
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+
+      const timestamp = Date.parse(entry.timestamp);
+      if (toolPattern && !toolPattern.test(entry.tool)) continue;
+      if (filters.profile && entry.profile !== filters.profile) continue;
+      if (filters.success !== undefined && entry.success !== filters.success) continue;
+      if (since !== null && timestamp < since) continue;
+      if (until !== null && timestamp > until) continue;
+      if (contains && !line.toLowerCase().includes(contains)) continue;
+
+      matches.push(entry);
+    }
+
+    const limit = filters.limit ?? 50;
+    return { entries: matches.reverse().slice(0, limit), scanned };
+  }
+}
+
+/**
+ * Load audit log settings from environment variables
+ */
+export function loadAuditLogConfig(): AuditLogConfig {
+  const setting = (process.env.MCP_AUDIT_LOG || 'on').toLowerCase();
+
+  return {
+    enabled: !['off', 'false', '0', 'disabled'].includes(setting),
+    filePath: path.resolve(
+      process.env.MCP_AUDIT_LOG_FILE || path.join(os.homedir(), '.supabase-mcp', 'audit.jsonl')
+    ),
+    table: process.env.MCP_AUDIT_TABLE || undefined,
+  };
+}
+
+let auditLog: AuditLog | null = null;
+
+/**
+ * Shared audit log, created on first use so .env values are already loaded
+ */
+export function getAuditLog(): AuditLog {
+  if (!auditLog) {
+    auditLog = new AuditLog(loadAuditLogConfig());
+  }
+  return auditLog;
+}
+
+/**
+ * Build an audit entry for a finished (or rejected) tool call
+ */
+export function createAuditEntry(details: {
+  tool: string;
+  category: string | null;
+  safety: string | null;
+  profile: string;
+  client: string | null;
+  authUser: string | null;
+  args: Record<string, any>;
+  startedAt: number;
+  result?: CallToolResult;
+  error?: unknown;
+}): AuditEntry {
+  const summary = details.result ? summarizeResult(details.result) : null;
+  const error = details.error !== undefined
+    ? (details.error instanceof Error ? details.error.message : String(details.error))
+    : summary?.error ?? null;
+
+  return {
+    id: randomUUID(),
+    timestamp: new Date(details.startedAt).toISOString(),
+    profile: details.profile,
+    tool: details.tool,
+    category: details.category,
+    safety: details.safety,
+    client: details.client,
+    auth_user: details.authUser,
+    arguments: redactToolArguments(details.tool, details.args),
+    duration_ms: Date.now() - details.startedAt,
+    success: details.error === undefined && (summary?.success ?? true),
+    error,
+    affected_rows: details.safety === 'read' ? null : summary?.affectedRows ?? null,
+  };
+}
+
+/**
+ * Replace secrets with a marker and shorten very long values
+ */
+export function redactArguments(value: any, key = ''): any {
+  if (key && SENSITIVE_KEY.test(key)) {
+    return '[REDACTED]';
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactArguments(item));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([childKey, childValue]) => [childKey, redactArguments(childValue, childKey)])
+    );
+  }
+  // Access tokens can appear under any key, e.g. as_user
+  if (typeof value === 'string' && JWT_PATTERN.test(value)) {
+    return '[REDACTED]';
+  }
+  if (typeof value === 'string' && value.length > MAX_STRING_LENGTH) {
+    return `${value.substring(0, MAX_STRING_LENGTH)}... [${value.length} chars]`;
+  }
+  return value;
+}
+
+/**
+ * Redact a tool's arguments. Bulk payloads whose rows carry credentials
+ * under column names the key-based redaction cannot see are replaced by
+ * their format and size.
+ */
+export function redactToolArguments(tool: string, args: Record<string, any>): Record<string, any> {
+  const bulk = BULK_ARGUMENTS[tool] || [];
+  return redactArguments(Object.fromEntries(
+    Object.entries(args).map(([key, value]) => [key, bulk.includes(key) ? summarizePayload(value) : value])
+  ));
+}
+
+// e.g. "[REDACTED csv, 120 rows]"
+function summarizePayload(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[REDACTED json, ${value.length} rows]`;
+  }
+  if (typeof value !== 'string') {
+    return '[REDACTED]';
+  }
+
+  const text = value.trim();
+  if (text.startsWith('[')) {
+    try {
+      const rows = JSON.parse(text);
+      return `[REDACTED json, ${Array.isArray(rows) ? rows.length : 1} rows]`;
+    } catch {
+      return `[REDACTED json, ${value.length} chars]`;
+    }
+  }
+  // Lines after the header; quoted fields spanning lines make this an estimate
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '').length;
+  return `[REDACTED csv, ${Math.max(lines - 1, 0)} rows]`;
+}
+
+// An unparseable time would compare false with everything and filter nothing
+function parseTimeFilter(value: string | undefined, name: string): number | null {
+  if (!value) {
+    return null;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid ${name} '${value}': expected an ISO timestamp such as 2024-05-01T00:00:00Z`);
+  }
+  return time;
+}
+
+/**
+ * Pull success, error and row counts out of a tool's structured result
+ */
+function summarizeResult(result: CallToolResult): { success: boolean; error: string | null; affectedRows: number | null } {
+  const envelope = result.structuredContent as Partial<ToolEnvelope> | undefined;
+  const count = envelope?.data?.count;
+
+  return {
+    success: !result.isError && envelope?.success !== false,
+    error: envelope?.error ?? null,
+    affectedRows: typeof count === 'number' ? count : null,
+  };
+}
+
+const SENSITIVE_KEY = /pass(word)?|secret|token|api_?key|authorization|jwt|otp|hash|file_base64/i;
+const BULK_ARGUMENTS: Record<string, string[]> = {
+  auth_import_users: ['data'],
+};
+const JWT_PATTERN = /^eyJ[\w-]*\.[\w-]+\.[\w-]*$/;
+const MAX_STRING_LENGTH = 1000;
+
+// Type definitions
+export interface AuditLogConfig {
+  enabled: boolean;
+  filePath: string;
+  table?: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  profile: string;
+  tool: string;
+  category: string | null;
+  safety: string | null;
+  client: string | null;
+  auth_user: string | null;
+  arguments: Record<string, any>;
+  duration_ms: number;
+  success: boolean;
+  error: string | null;
+  affected_rows: number | null;
+}
+
+export interface AuditQuery {
+  tool?: string;
+  profile?: string;
+  success?: boolean;
+  since?: string;
+  until?: string;
+  contains?: string;
+  limit?: number;
+}
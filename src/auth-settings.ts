@@ -0,0 +1,135 @@
+import { SupabaseClient } from './supabase-client.js';
+import { resilientFetch } from './http-client.js';
+
+/**
+ * Auth Settings
+ *
+ * Reads GoTrue's public `/auth/v1/settings` endpoint, which is what a
+ * self-hosted stack has instead of the Dashboard's auth settings page, and
+ * audits the combination of settings for ways strangers could get an
+ * account they should not have. Findings name the GoTrue variable to
+ * change, since that is where self-hosted stacks configure auth.
+ */
+export async function fetchAuthSettings(supabaseClient: SupabaseClient): Promise<AuthSettings> {
+  const config = supabaseClient.getConfig();
+  const response = await resilientFetch(`${config.url}/auth/v1/settings`, {
+    headers: { apikey: config.anonKey },
+  });
+  if (!response.ok) {
+    throw new Error(`GoTrue settings request failed: HTTP ${response.status} ${await response.text()}`);
+  }
+
+  const raw = await response.json();
+  const external: Record<string, boolean> = raw.external || {};
+  const { email = false, phone = false, anonymous_users = false, ...oauth } = external;
+
+  return {
+    signup_disabled: raw.disable_signup === true,
+    email_enabled: email,
+    phone_enabled: phone,
+    anonymous_sign_ins_enabled: anonymous_users,
+    mailer_autoconfirm: raw.mailer_autoconfirm === true,
+    phone_autoconfirm: raw.phone_autoconfirm === true,
+    sms_provider: raw.sms_provider || null,
+    saml_enabled: raw.saml_enabled === true,
+    oauth_providers: Object.keys(oauth).filter((provider) => oauth[provider] === true).sort(),
+    // Only newer GoTrue versions publish MFA settings
+    mfa: raw.mfa ?? null,
+    raw,
+  };
+}
+
+/**
+ * Flag risky or broken combinations of auth settings
+ */
+export function auditAuthSettings(settings: AuthSettings): AuthSettingsFinding[] {
+  const findings: AuthSettingsFinding[] = [];
+  const openSignup = !settings.signup_disabled;
+
+  if (openSignup && settings.email_enabled && settings.mailer_autoconfirm) {
+    findings.push({
+      check: 'open_signup_autoconfirm',
+      severity: 'warning',
+      message: 'Anyone can sign up with any email address, including ones they do not own, and is signed in immediately',
+      fix: 'Disable GOTRUE_MAILER_AUTOCONFIRM so emails must be confirmed, or set GOTRUE_DISABLE_SIGNUP=true and create users with auth_admin_create_user',
+    });
+  }
+
+  if (openSignup && settings.phone_enabled && settings.phone_autoconfirm) {
+    findings.push({
+      check: 'open_signup_phone_autoconfirm',
+      severity: 'warning',
+      message: 'Anyone can sign up with any phone number, including ones they do not own, and is signed in immediately',
+      fix: 'Disable GOTRUE_SMS_AUTOCONFIRM, or set GOTRUE_DISABLE_SIGNUP=true',
+    });
+  }
+
+  if (openSignup && settings.anonymous_sign_ins_enabled) {
+    findings.push({
+      check: 'anonymous_sign_ins',
+      severity: 'warning',
+      message: 'Anonymous users get the authenticated role, so policies written for authenticated also apply to them',
+      fix: "Check (auth.jwt()->>'is_anonymous')::boolean in policies that should exclude them, or set GOTRUE_EXTERNAL_ANONYMOUS_USERS_ENABLED=false",
+    });
+  }
+
+  if (settings.phone_enabled && !settings.phone_autoconfirm && !settings.sms_provider) {
+    findings.push({
+      check: 'phone_without_sms_provider',
+      severity: 'warning',
+      message: 'Phone sign-in is enabled but no SMS provider is configured, so codes cannot be delivered',
+      fix: 'Configure GOTRUE_SMS_PROVIDER and its credentials, or set GOTRUE_EXTERNAL_PHONE_ENABLED=false',
+    });
+  }
+
+  if (openSignup && settings.email_enabled && !settings.mailer_autoconfirm) {
+    findings.push({
+      check: 'email_confirmation_required',
+      severity: 'info',
+      message: 'New users must confirm their email before signing in, which needs working SMTP',
+      fix: 'Configure GOTRUE_SMTP_*, or confirm users with auth_admin_update_user (email_confirm) or auth_admin_generate_link',
+    });
+  }
+
+  const signInMethods = [settings.email_enabled, settings.phone_enabled, settings.anonymous_sign_ins_enabled, settings.saml_enabled]
+    .filter(Boolean).length + settings.oauth_providers.length;
+  if (signInMethods === 0) {
+    findings.push({
+      check: 'no_sign_in_method',
+      severity: 'warning',
+      message: 'No sign-in method is enabled, so nobody can sign in',
+      fix: 'Enable at least one of GOTRUE_EXTERNAL_EMAIL_ENABLED, GOTRUE_EXTERNAL_PHONE_ENABLED or an OAuth provider',
+    });
+  } else if (settings.signup_disabled) {
+    findings.push({
+      check: 'signup_disabled',
+      severity: 'info',
+      message: 'Sign-up is disabled; only existing users can sign in',
+      fix: 'Create users with auth_admin_create_user or auth_admin_invite_user',
+    });
+  }
+
+  return findings;
+}
+
+// Type definitions
+export interface AuthSettings {
+  signup_disabled: boolean;
+  email_enabled: boolean;
+  phone_enabled: boolean;
+  anonymous_sign_ins_enabled: boolean;
+  mailer_autoconfirm: boolean;
+  phone_autoconfirm: boolean;
+  sms_provider: string | null;
+  saml_enabled: boolean;
+  oauth_providers: string[];
+  mfa: Record<string, any> | null;
+  raw: Record<string, any>;
+}
+
+export interface AuthSettingsFinding {
+  check: string;
+  severity: 'warning' | 'info';
+  message: string;
+  fix: string;
+}
@@ -0,0 +1,96 @@
+/**
+ * CSV
+ *
+ * Minimal RFC 4180 reader and writer for tool input and output: comma
+ * separated, a header row, and double-quoted fields that may contain
+ * commas, quotes ("") and line breaks.
+ */
+
+/**
+ * Render rows as CSV with the given columns; objects are written as JSON
+ */
+export function toCsv(rows: Record<string, any>[], columns: string[]): string {
+  const lines = [columns.map(escapeField).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((column) => escapeField(formatValue(row[column]))).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Parse CSV with a header row into one object per record. Empty fields
+ * become undefined so they can be told apart from explicit values.
+ */
+export function parseCsv(text: string): Record<string, string | undefined>[] {
+  const records = parseRecords(text.replace(/^\uFEFF/, ''));
+  if (records.length === 0) {
+    return [];
+  }
+
+  const header = records[0].map((column) => column.trim());
+  return records.slice(1)
+    .filter((record) => record.some((field) => field !== ''))
+    .map((record) => Object.fromEntries(
+      header.map((column, index) => [column, record[index] === undefined || record[index] === '' ? undefined : record[index]])
+    ));
+}
+
+function parseRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quoted field in CSV');
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function escapeField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,243 @@
+/**
+ * Filters
+ *
+ * The filter language of the database tools, compiled to PostgREST query
+ * parameters. A filter object maps columns to a value (equality, or IS for
+ * null) or to an object of operators:
+ *
+ *   { "status": "active", "age": { "gte": 18, "lt": 65 }, "deleted_at": null }
+ *   { "tags": { "contains": ["a", "b"] }, "role": { "not": { "in": ["admin", "owner"] } } }
+ *   { "or": [{ "owner_id": "u1" }, { "public": true }], "not": { "archived": true } }
+ *
+ * `or` and `and` take arrays of filter objects and nest freely; `not`
+ * negates a filter object or, inside a column, an operator object.
+ */
+export function applyFilters<Q extends FilterableQuery>(query: Q, filters: Record<string, unknown> | undefined): Q {
+  for (const condition of flattenAnd(parseFilterObject(filters ?? {}, 'filters'))) {
+    if (condition.kind === 'column') {
+      query = query.filter(
+        condition.column,
+        `${condition.negate ? 'not.' : ''}${condition.operator}`,
+        formatValue(condition.operator, condition.value, false)
+      );
+    } else if (condition.type === 'or' && !condition.negate) {
+      query = query.or(condition.conditions.map(renderCondition).join(','));
+    } else {
+      // A one-element `or` holds any other group, e.g. not.and(...)
+      query = query.or(renderCondition(condition));
+    }
+  }
+  return query;
+}
+
+/**
+ * Parse one filter object; its entries are combined with AND
+ */
+function parseFilterObject(filters: unknown, path: string): Condition[] {
+  if (!isPlainObject(filters)) {
+    throw new Error(`${path} must be an object of column filters`);
+  }
+
+  const conditions: Condition[] = [];
+  for (const [key, value] of Object.entries(filters)) {
+    if (key === 'or' || key === 'and') {
+      if (!Array.isArray(value) || value.length === 0) {
+        throw new Error(`${path}.${key} must be a non-empty array of filter objects`);
+      }
+      conditions.push({
+        kind: 'group',
+        type: key,
+        negate: false,
+        conditions: value.map((item, index) => combine(parseFilterObject(item, `${path}.${key}[${index}]`))),
+      });
+    } else if (key === 'not') {
+      conditions.push(negate(combine(parseFilterObject(value, `${path}.not`))));
+    } else {
+      conditions.push(...parseColumnFilter(key, value, `${path}.${key}`));
+    }
+  }
+  return conditions;
+}
+
+function parseColumnFilter(column: string, value: unknown, path: string): Condition[] {
+  if (RESERVED_IN_COLUMN.test(column)) {
+    throw new Error(`${path}: column names cannot contain , . : ( ) " or \\, which PostgREST reads as filter syntax`);
+  }
+  if (value === null) {
+    return [{ kind: 'column', column, operator: 'is', negate: false, value: null }];
+  }
+  if (Array.isArray(value)) {
+    throw new Error(`${path} is an array; use { "in": [...] } to match any of the values or { "contains": [...] } for array columns`);
+  }
+  if (!isPlainObject(value)) {
+    return [{ kind: 'column', column, operator: 'eq', negate: false, value }];
+  }
+
+  const conditions: Condition[] = [];
+  for (const [name, operand] of Object.entries(value)) {
+    if (name === 'not') {
+      conditions.push(negate(combine(parseColumnFilter(column, operand, `${path}.not`))));
+      continue;
+    }
+
+    const operator = OPERATORS[name];
+    if (!operator) {
+      throw new Error(`Unknown filter operator '${name}' in ${path}; use one of ${Object.keys(OPERATORS).join(', ')} or not`);
+    }
+    checkOperand(name, operand, `${path}.${name}`);
+    conditions.push({ kind: 'column', column, operator, negate: false, value: operand });
+  }
+
+  if (conditions.length === 0) {
+    throw new Error(`${path} has no operators`);
+  }
+  return conditions;
+}
+
+function checkOperand(name: string, operand: unknown, path: string): void {
+  if (name === 'in') {
+    if (!Array.isArray(operand)) {
+      throw new Error(`${path} must be an array`);
+    }
+  } else if (name === 'is') {
+    if (!IS_VALUES.includes(operand as any)) {
+      throw new Error(`${path} must be null, true, false or "unknown"`);
+    }
+  } else if (name.startsWith('range')) {
+    if (typeof operand !== 'string') {
+      throw new Error(`${path} must be a range literal such as "[1,10)"`);
+    }
+  } else if (CONTAINMENT_OPERATORS.includes(name)) {
+    if (typeof operand !== 'string' && !(typeof operand === 'object' && operand !== null)) {
+      throw new Error(`${path} must be an array, a JSON object or a range literal`);
+    }
+  } else if (!['string', 'number', 'boolean'].includes(typeof operand)) {
+    throw new Error(operand === null
+      ? `${path} cannot be null; use { "is": null } to match nulls`
+      : `${path} must be a string, number or boolean`);
+  }
+}
+
+// Several conditions in one place mean AND
+function combine(conditions: Condition[]): Condition {
+  return conditions.length === 1 ? conditions[0] : { kind: 'group', type: 'and', negate: false, conditions };
+}
+
+function negate(condition: Condition): Condition {
+  return { ...condition, negate: !condition.negate };
+}
+
+// Top-level AND groups are the same as their conditions side by side
+function flattenAnd(conditions: Condition[]): Condition[] {
+  return conditions.flatMap((condition) =>
+    condition.kind === 'group' && condition.type === 'and' && !condition.negate
+      ? flattenAnd(condition.conditions)
+      : [condition]);
+}
+
+/**
+ * Render a condition in PostgREST's logic tree syntax, e.g.
+ * `age.gte.18` or `not.and(status.eq.active,tags.cs.{a,b})`
+ */
+function renderCondition(condition: Condition): string {
+  const not = condition.negate ? 'not.' : '';
+  if (condition.kind === 'group') {
+    return `${not}${condition.type}(${condition.conditions.map(renderCondition).join(',')})`;
+  }
+  return `${condition.column}.${not}${condition.operator}.${formatValue(condition.operator, condition.value, true)}`;
+}
+
+/**
+ * Format an operand for PostgREST. Inside logic trees, values holding
+ * reserved characters are double-quoted; arrays keep their braces, which
+ * PostgREST parses there as well.
+ */
+function formatValue(operator: string, value: unknown, inTree: boolean): string {
+  switch (operator) {
+    case 'is':
+      return String(value);
+    case 'in':
+      return `(${(value as unknown[]).map(quote).join(',')})`;
+    case 'cs':
+    case 'cd':
+    case 'ov':
+      if (Array.isArray(value)) {
+        return `{${value.map(formatArrayElement).join(',')}}`;
+      }
+      if (typeof value === 'object') {
+        return inTree ? doubleQuote(JSON.stringify(value)) : JSON.stringify(value);
+      }
+      return inTree ? quote(value) : String(value);
+    default:
+      return inTree ? quote(value) : formatScalar(value);
+  }
+}
+
+function formatScalar(value: unknown): string {
+  return value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// Postgres array literal element: quoted when it holds separators or spaces
+function formatArrayElement(value: unknown): string {
+  const text = formatScalar(value);
+  return text === '' || /[,{}"\\\s]/.test(text) || text.toUpperCase() === 'NULL' ? doubleQuote(text) : text;
+}
+
+// Only strings can hold reserved characters; numbers and booleans go as they are
+function quote(value: unknown): string {
+  return typeof value === 'string' && RESERVED_IN_TREE.test(value) ? doubleQuote(value) : formatScalar(value);
+}
+
+function doubleQuote(text: string): string {
+  return `"${text.replace(/["\\]/g, '\\$&')}"`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Filter language operator -> PostgREST operator
+const OPERATORS: Record<string, string> = {
+  eq: 'eq',
+  neq: 'neq',
+  gt: 'gt',
+  gte: 'gte',
+  lt: 'lt',
+  lte: 'lte',
+  like: 'like',
+  ilike: 'ilike',
+  is: 'is',
+  in: 'in',
+  contains: 'cs',
+  containedBy: 'cd',
+  overlaps: 'ov',
+  rangeGt: 'sr',
+  rangeGte: 'nxl',
+  rangeLt: 'sl',
+  rangeLte: 'nxr',
+  rangeAdjacent: 'adj',
+};
+
+const CONTAINMENT_OPERATORS = ['contains', 'containedBy', 'overlaps'];
+const IS_VALUES = [null, true, false, 'unknown'];
+const RESERVED_IN_TREE = /[,.:()"\\\s]/;
+// Separators of `column.operator.value` and logic trees; spaces are fine in names
+const RESERVED_IN_COLUMN = /[,.:()"\\]/;
+
+/**
+ * Schema description of the filter language, shared by the database tools
+ */
+export const FILTER_SYNTAX =
+  'Maps columns to a value (equality; null matches IS NULL) or to operators: eq, neq, gt, gte, lt, lte, like, ilike (* or % wildcards), ' +
+  'is, in, contains, containedBy, overlaps (arrays, JSON, ranges), rangeGt, rangeGte, rangeLt, rangeLte, rangeAdjacent, and not ' +
+  '(e.g. {"age": {"gte": 18}, "role": {"not": {"in": ["admin"]}}}). Combine with "or"/"and" arrays of filter objects and "not", nested freely';
+
+// Type definitions
+type Condition =
+  | { kind: 'column'; column: string; operator: string; negate: boolean; value: unknown }
+  | { kind: 'group'; type: 'and' | 'or'; negate: boolean; conditions: Condition[] };
+
+export interface FilterableQuery {
+  filter(column: string, operator: string, value: unknown): this;
+  or(filters: string): this;
+}
@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+
+import { createToolRegistry } from './tools/index.js';
+
+// Print the Markdown tool reference generated from the registry
+process.stdout.write(createToolRegistry().toMarkdown() + '\n');
@@ -0,0 +1,334 @@
+import { SupabaseClient } from './supabase-client.js';
+import { decodeJwt, verifyJwt } from './jwt.js';
+
+/**
+ * Stack Health Check
+ *
+ * Probes every service of a self-hosted stack through the Kong gateway
+ * (PostgREST, GoTrue, Storage, Realtime, the edge runtime, postgres-meta)
+ * plus the direct Postgres connection when configured, and looks for
+ * common misconfigurations in the keys. Services fail independently, so
+ * each one is reported with its own status, latency and version.
+ */
+export async function runHealthCheck(
+  supabaseClient: SupabaseClient,
+  options: HealthCheckOptions = {}
+): Promise<HealthReport> {
+  const config = supabaseClient.getConfig();
+  const timeoutMs = options.timeoutMs ?? 5000;
+  const selected = options.services?.length ? options.services : HEALTH_SERVICES;
+  const gatewayHeaders: Headers[] = [];
+
+  const probe = async (service: HealthService, path: string, key: string, readVersion?: VersionReader) => {
+    const result = await probeHttp(`${config.url}${path}`, key, timeoutMs);
+    if (result.response) {
+      gatewayHeaders.push(result.response.headers);
+    }
+    return toServiceHealth(service, path, result, readVersion);
+  };
+
+  const probes: Record<Exclude<HealthService, 'kong'>, () => Promise<ServiceHealth>> = {
+    rest: () => probe('rest', '/rest/v1/', config.serviceRoleKey, (response) =>
+      versionFromServerHeader(response.headers, 'postgrest') || parseJson(response.body)?.info?.version),
+    auth: () => probe('auth', '/auth/v1/health', config.anonKey, (response) =>
+      parseJson(response.body)?.version),
+    storage: () => probe('storage', '/storage/v1/status', config.serviceRoleKey),
+    realtime: () => probe('realtime', '/realtime/v1/api/ping', config.anonKey),
+    // The edge runtime answers unknown functions with 404, which still proves it is up
+    functions: () => probe('functions', '/functions/v1/', config.anonKey),
+    'pg-meta': () => probe('pg-meta', '/pg/health', config.serviceRoleKey),
+    postgres: () => probePostgres(supabaseClient, timeoutMs),
+  };
+
+  const services: ServiceHealth[] = await Promise.all(
+    selected
+      .filter((service): service is Exclude<HealthService, 'kong'> => service !== 'kong')
+      .map((service) => probes[service]())
+  );
+
+  if (selected.includes('kong')) {
+    services.unshift(gatewayHealth(gatewayHeaders, services));
+  }
+
+  const misconfigurations = options.skipMisconfigurationChecks
+    ? []
+    : await checkMisconfigurations(supabaseClient, timeoutMs, services);
+
+  return {
+    healthy: services.every((service) => service.status === 'ok' || service.status === 'skipped') &&
+      !misconfigurations.some((issue) => issue.severity === 'error'),
+    services,
+    misconfigurations,
+  };
+}
+
+/**
+ * Look for keys that are swapped, shared, expired or accepted where they
+ * should not be
+ */
+async function checkMisconfigurations(
+  supabaseClient: SupabaseClient,
+  timeoutMs: number,
+  services: ServiceHealth[]
+): Promise<Misconfiguration[]> {
+  const config = supabaseClient.getConfig();
+  const issues: Misconfiguration[] = [];
+
+  if (config.anonKey === config.serviceRoleKey) {
+    issues.push({
+      check: 'distinct_keys',
+      severity: 'error',
+      message: 'The anon key and the service role key are identical, so every client has full admin access',
+    });
+  }
+
+  for (const [label, key, expectedRole] of [
+    ['anon key', config.anonKey, 'anon'],
+    ['service role key', config.serviceRoleKey, 'service_role'],
+  ] as const) {
+    const claims = decodeJwt(key)?.claims;
+    if (!claims) {
+      issues.push({
+        check: 'key_format',
+        severity: 'info',
+        message: `The ${label} is not a JWT, so its role and expiry cannot be checked`,
+      });
+      continue;
+    }
+    if (claims.role !== expectedRole) {
+      issues.push({
+        check: 'key_role',
+        severity: 'error',
+        message: `The ${label} carries role '${claims.role ?? 'none'}' instead of '${expectedRole}'`,
+      });
+    }
+    if (typeof claims.exp === 'number' && claims.exp * 1000 < Date.now()) {
+      issues.push({
+        check: 'key_expiry',
+        severity: 'error',
+        message: `The ${label} expired at ${new Date(claims.exp * 1000).toISOString()}`,
+      });
+    }
+    if (config.jwtSecret && verifyJwt(key, config.jwtSecret).error === 'Invalid signature') {
+      issues.push({
+        check: 'key_signature',
+        severity: 'error',
+        message: `The ${label} is not signed with the configured JWT secret`,
+      });
+    }
+  }
+
+  const rest = services.find((service) => service.service === 'rest');
+  if (rest?.http_status === 401 || rest?.http_status === 403) {
+    issues.push({
+      check: 'service_key_accepted',
+      severity: 'error',
+      message: 'PostgREST rejected the service role key; it was probably signed with a different JWT secret',
+    });
+  }
+
+  // Endpoints that must refuse the anon key
+  const adminEndpoints = [
+    { path: '/auth/v1/admin/users?per_page=1', name: 'GoTrue admin API' },
+    { path: '/pg/tables?limit=1', name: 'postgres-meta' },
+  ];
+  for (const endpoint of adminEndpoints) {
+    const result = await probeHttp(`${config.url}${endpoint.path}`, config.anonKey, timeoutMs);
+    if (result.response?.ok) {
+      issues.push({
+        check: 'anon_key_admin_access',
+        severity: 'error',
+        message: `The anon key is accepted by the ${endpoint.name} (${endpoint.path}); only the service role key should be`,
+      });
+    }
+  }
+
+  const url = new URL(config.url);
+  if (url.protocol === 'http:' && !['localhost', '127.0.0.1', '::1'].includes(url.hostname)) {
+    issues.push({
+      check: 'transport_security',
+      severity: 'warning',
+      message: `${config.url} uses plain HTTP; keys and sessions travel unencrypted`,
+    });
+  }
+
+  return issues;
+}
+
+// Plain fetch on purpose: probes must see each service as it is, without
+// retries or an open circuit breaker hiding it
+async function probeHttp(url: string, key: string, timeoutMs: number): Promise<ProbeResult> {
+  const startedAt = Date.now();
+  try {
+    const response = await fetch(url, {
+      headers: { 'apikey': key, 'Authorization': `Bearer ${key}` },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    const latencyMs = Date.now() - startedAt;
+
+    return {
+      response: {
+        ok: response.ok,
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        body: await response.text(),
+      },
+      latencyMs,
+    };
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === 'TimeoutError';
+    return {
+      latencyMs: Date.now() - startedAt,
+      error: timedOut ? `No response within ${timeoutMs}ms` : errorMessage(error),
+    };
+  }
+}
+
+function toServiceHealth(
+  service: HealthService,
+  endpoint: string,
+  result: ProbeResult,
+  readVersion?: VersionReader
+): ServiceHealth {
+  const { response } = result;
+  if (!response) {
+    return { service, endpoint, status: 'down', http_status: null, latency_ms: result.latencyMs, version: null, error: result.error };
+  }
+
+  // 5xx from the gateway means the upstream container is unreachable
+  const reachable = service === 'functions' ? response.status < 500 : response.ok;
+  const version = readVersion ? readVersion(response) : null;
+
+  return {
+    service,
+    endpoint,
+    status: reachable ? 'ok' : response.status >= 500 ? 'down' : 'degraded',
+    http_status: response.status,
+    latency_ms: result.latencyMs,
+    version: version || null,
+    error: reachable ? undefined : `HTTP ${response.status}: ${response.statusText}`,
+  };
+}
+
+async function probePostgres(supabaseClient: SupabaseClient, timeoutMs: number): Promise<ServiceHealth> {
+  const postgres = supabaseClient.getPostgres();
+  const endpoint = 'DATABASE_URL';
+  if (!postgres) {
+    return { service: 'postgres', endpoint, status: 'skipped', http_status: null, latency_ms: null, version: null, note: 'No DATABASE_URL configured' };
+  }
+
+  const startedAt = Date.now();
+  try {
+    const [result] = await Promise.race([
+      postgres.query('SHOW server_version'),
+      new Promise<never>((_, reject) => setTimeout(() => reject(new Error(`No response within ${timeoutMs}ms`)), timeoutMs).unref()),
+    ]);
+    return {
+      service: 'postgres',
+      endpoint,
+      status: 'ok',
+      http_status: null,
+      latency_ms: Date.now() - startedAt,
+      version: result.rows[0]?.server_version ?? null,
+    };
+  } catch (error) {
+    return { service: 'postgres', endpoint, status: 'down', http_status: null, latency_ms: Date.now() - startedAt, version: null, error: errorMessage(error) };
+  }
+}
+
+/**
+ * Kong has no health route of its own; it is up when it answered any probe
+ */
+function gatewayHealth(headers: Headers[], services: ServiceHealth[]): ServiceHealth {
+  const kongHeaders = headers.find((header) => versionFromServerHeader(header, 'kong'));
+  const answered = services.filter((service) => service.http_status !== null);
+  const latencies = answered.map((service) => service.latency_ms!).sort((a, b) => a - b);
+
+  return {
+    service: 'kong',
+    endpoint: '/',
+    status: answered.length > 0 ? 'ok' : 'down',
+    http_status: null,
+    latency_ms: latencies.length > 0 ? latencies[0] : null,
+    version: kongHeaders ? versionFromServerHeader(kongHeaders, 'kong') : null,
+    error: answered.length > 0 ? undefined : 'No service answered through the gateway',
+  };
+}
+
+// e.g. "Server: postgrest/12.0.2" or "Via: kong/2.8.1"
+function versionFromServerHeader(headers: Headers, product: string): string | null {
+  for (const name of ['server', 'via']) {
+    const match = headers.get(name)?.match(new RegExp(`${product}/([\\w.-]+)`, 'i'));
+    if (match) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+function parseJson(body: string): any {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return null;
+  }
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    const cause = (error as any).cause;
+    return cause instanceof Error ? `${error.message} (${cause.message})` : error.message;
+  }
+  return String(error);
+}
+
+export const HEALTH_SERVICES: HealthService[] = ['kong', 'rest', 'auth', 'storage', 'realtime', 'functions', 'pg-meta', 'postgres'];
+
+// Type definitions
+export type HealthService = 'kong' | 'rest' | 'auth' | 'storage' | 'realtime' | 'functions' | 'pg-meta' | 'postgres';
+
+export interface HealthCheckOptions {
+  timeoutMs?: number;
+  services?: HealthService[];
+  skipMisconfigurationChecks?: boolean;
+}
+
+export interface ServiceHealth {
+  service: HealthService;
+  endpoint: string;
+  status: 'ok' | 'degraded' | 'down' | 'skipped';
+  http_status: number | null;
+  latency_ms: number | null;
+  version: string | null;
+  error?: string;
+  note?: string;
+}
+
+export interface Misconfiguration {
+  check: string;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+}
+
+export interface HealthReport {
+  healthy: boolean;
+  services: ServiceHealth[];
+  misconfigurations: Misconfiguration[];
+}
+
+interface ProbeResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: Headers;
+  body: string;
+}
+
+interface ProbeResult {
+  response?: ProbeResponse;
+  latencyMs: number;
+  error?: string;
+}
+
+type VersionReader = (response: ProbeResponse) => string | null | undefined;
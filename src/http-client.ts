@@ -0,0 +1,253 @@
+/**
+ * Resilient HTTP Layer
+ *
+ * Fetch wrapper used for every call to the stack: supabase-js clients get
+ * it as their `global.fetch`, and direct REST / postgres-meta / management
+ * API calls go through it too. It adds a timeout to every request, retries
+ * idempotent requests on network errors and 5xx responses with exponential
+ * backoff, and keeps a circuit breaker per service so a dead container
+ * fails fast instead of stalling every tool call.
+ */
+export class HttpClient {
+  private breakers = new Map<string, CircuitBreaker>();
+
+  constructor(private options: HttpClientOptions) {}
+
+  /**
+   * Drop-in replacement for global fetch; `timeoutMs` and `retries` can be
+   * overridden per call
+   */
+  fetch = async (input: string | URL | Request, options: HttpRequestInit = {}): Promise<Response> => {
+    const { timeoutMs: callTimeoutMs, retries, ...init } = options;
+    const url = new URL(typeof input === 'string' || input instanceof URL ? input : input.url);
+    const method = (init.method || (input instanceof Request ? input.method : 'GET')).toUpperCase();
+    const timeoutMs = callTimeoutMs ?? this.options.timeoutMs;
+    const breakerKey = `${url.origin}|${serviceForPath(url.pathname)}`;
+    const breaker = this.breaker(breakerKey);
+
+    const replayable = !(input instanceof Request) && isReplayableBody(init.body);
+    const idempotent = IDEMPOTENT_METHODS.includes(method);
+    const maxRetries = replayable ? retries ?? this.options.retries : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      breaker.assertClosed(breakerKey);
+
+      try {
+        const response = await fetch(input, { ...init, signal: withTimeout(init.signal, timeoutMs) });
+
+        if (response.status >= 500 || response.status === 429) {
+          if (response.status >= 500) {
+            breaker.recordFailure(this.options);
+          } else {
+            // Rate limited: the service is up, so a half-open circuit lets the next request try again
+            breaker.releaseTrial();
+          }
+          if (idempotent && attempt < maxRetries) {
+            await response.body?.cancel();
+            await sleep(retryDelay(attempt, this.options.retryBaseMs, response.headers.get('retry-after')));
+            continue;
+          }
+        } else {
+          breaker.recordSuccess();
+        }
+        return response;
+      } catch (error) {
+        if (isTimeout(error)) {
+          breaker.recordFailure(this.options);
+          // Retrying a hung service would only multiply the wait
+          throw new Error(`${method} ${url.origin}${url.pathname} timed out after ${timeoutMs}ms`);
+        }
+        if (init.signal?.aborted) {
+          // Cancelled by the caller, which says nothing about the service
+          breaker.releaseTrial();
+          throw error;
+        }
+
+        breaker.recordFailure(this.options);
+        // A refused connection never reached the server, so even POSTs are safe to repeat
+        if ((idempotent || neverSent(error)) && attempt < maxRetries) {
+          await sleep(retryDelay(attempt, this.options.retryBaseMs));
+          continue;
+        }
+        throw error;
+      }
+    }
+  };
+
+  /**
+   * Breaker states per origin and service (for diagnostics)
+   */
+  getCircuitStates(): Array<{ service: string; state: CircuitState; failures: number; retry_at: string | null }> {
+    return Array.from(this.breakers.entries()).map(([key, breaker]) => ({
+      service: key,
+      state: breaker.getState(),
+      failures: breaker.failures,
+      retry_at: breaker.getState() === 'open' ? new Date(breaker.openUntil).toISOString() : null,
+    }));
+  }
+
+  private breaker(key: string): CircuitBreaker {
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker();
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+}
+
+/**
+ * Consecutive-failure breaker: opens after `breakerThreshold` failures, lets
+ * a single trial request through after the cooldown, and closes again on
+ * the first success
+ */
+class CircuitBreaker {
+  failures = 0;
+  openUntil = 0;
+  private trialInFlight = false;
+
+  getState(): CircuitState {
+    if (this.openUntil === 0) {
+      return 'closed';
+    }
+    return Date.now() < this.openUntil ? 'open' : 'half-open';
+  }
+
+  assertClosed(key: string): void {
+    const state = this.getState();
+    if (state === 'open' || (state === 'half-open' && this.trialInFlight)) {
+      const seconds = Math.max(1, Math.ceil((this.openUntil - Date.now()) / 1000));
+      throw new Error(`Circuit open for ${key.replace('|', ' ')} after ${this.failures} consecutive failures; retry in ${seconds}s`);
+    }
+    if (state === 'half-open') {
+      this.trialInFlight = true;
+    }
+  }
+
+  releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openUntil = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(options: HttpClientOptions): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (options.breakerThreshold > 0 && this.failures >= options.breakerThreshold) {
+      this.openUntil = Date.now() + options.breakerCooldownMs;
+    }
+  }
+}
+
+/**
+ * Load timeout, retry and breaker settings from environment variables
+ */
+export function loadHttpClientOptions(): HttpClientOptions {
+  return {
+    timeoutMs: parseInt(process.env.SUPABASE_HTTP_TIMEOUT_MS || '30000', 10),
+    retries: parseInt(process.env.SUPABASE_HTTP_RETRIES || '2', 10),
+    retryBaseMs: parseInt(process.env.SUPABASE_HTTP_RETRY_BASE_MS || '250', 10),
+    breakerThreshold: parseInt(process.env.SUPABASE_HTTP_BREAKER_THRESHOLD || '5', 10),
+    breakerCooldownMs: parseInt(process.env.SUPABASE_HTTP_BREAKER_COOLDOWN_MS || '30000', 10),
+  };
+}
+
+let httpClient: HttpClient | null = null;
+
+/**
+ * Shared HTTP client, created on first use so .env values are already loaded
+ */
+export function getHttpClient(): HttpClient {
+  if (!httpClient) {
+    httpClient = new HttpClient(loadHttpClientOptions());
+  }
+  return httpClient;
+}
+
+/**
+ * fetch through the shared HTTP client
+ */
+export function resilientFetch(input: string | URL | Request, init?: HttpRequestInit): Promise<Response> {
+  return getHttpClient().fetch(input, init);
+}
+
+// Kong routes each service under its own path prefix
+function serviceForPath(pathname: string): string {
+  const match = pathname.match(/^\/(rest|auth|storage|functions|realtime|graphql)\/v1\b/);
+  if (match) {
+    return match[1];
+  }
+  return pathname.startsWith('/pg/') ? 'pg-meta' : 'other';
+}
+
+// Combine the caller's signal with a timeout (AbortSignal.any needs Node 20)
+function withTimeout(signal: AbortSignal | null | undefined, timeoutMs: number): AbortSignal | undefined {
+  if (!timeoutMs) {
+    return signal || undefined;
+  }
+  const timeout = AbortSignal.timeout(timeoutMs);
+  if (!signal) {
+    return timeout;
+  }
+
+  const controller = new AbortController();
+  for (const source of [signal, timeout]) {
+    if (source.aborted) {
+      controller.abort(source.reason);
+      break;
+    }
+    source.addEventListener('abort', () => controller.abort(source.reason), { once: true });
+  }
+  return controller.signal;
+}
+
+function retryDelay(attempt: number, baseMs: number, retryAfter?: string | null): number {
+  const seconds = retryAfter ? Number(retryAfter) : NaN;
+  if (Number.isFinite(seconds)) {
+    return Math.min(seconds * 1000, MAX_RETRY_DELAY_MS);
+  }
+  // Exponential backoff with full jitter
+  return Math.random() * Math.min(baseMs * 2 ** attempt, MAX_RETRY_DELAY_MS);
+}
+
+function isReplayableBody(body: unknown): boolean {
+  return body === undefined || body === null || typeof body === 'string' ||
+    body instanceof URLSearchParams || body instanceof Blob || body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body) || body instanceof FormData;
+}
+
+function isTimeout(error: unknown): boolean {
+  return error instanceof Error && error.name === 'TimeoutError';
+}
+
+function neverSent(error: unknown): boolean {
+  const code = (error as any)?.cause?.code;
+  return code === 'ECONNREFUSED' || code === 'ENOTFOUND' || code === 'EAI_AGAIN';
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+const MAX_RETRY_DELAY_MS = 5000;
+
+// Type definitions
+export interface HttpClientOptions {
+  timeoutMs: number;
+  retries: number;
+  retryBaseMs: number;
+  breakerThreshold: number;
+  breakerCooldownMs: number;
+}
+
+export interface HttpRequestInit extends RequestInit {
+  timeoutMs?: number;
+  retries?: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
@@ -0,0 +1,393 @@
+import { createServer as createHttpServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * HTTP Transport Server for MCP
+ *
+ * Hosts the MCP server over Streamable HTTP (`/mcp`) with a legacy SSE
+ * fallback (`GET /sse` + `POST /messages`). Every client session gets its
+ * own MCP server instance created by the session factory, so auth state
+ * never leaks between teammates sharing one deployment.
+ */
+export class HttpTransportServer {
+  private sessions: Map<string, HttpSession> = new Map();
+  private httpServer: HttpServer | null = null;
+  private reaper: NodeJS.Timeout | null = null;
+
+  constructor(
+    private createSession: () => Server,
+    private options: HttpTransportOptions
+  ) {}
+
+  /**
+   * Start listening for HTTP connections
+   */
+  async start(): Promise<void> {
+    if (!this.options.authToken) {
+      console.error('Warning: MCP_HTTP_AUTH_TOKEN is not set, HTTP transport accepts unauthenticated requests');
+    }
+
+    this.httpServer = createHttpServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error('HTTP transport error:', error);
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+
+    if (this.options.sessionIdleTimeoutMs > 0) {
+      this.reaper = setInterval(() => this.closeIdleSessions(), 60_000);
+      this.reaper.unref();
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(this.options.port, this.options.host, () => resolve());
+    });
+  }
+
+  /**
+   * Close every session and stop accepting connections
+   */
+  async close(): Promise<void> {
+    if (this.reaper) {
+      clearInterval(this.reaper);
+      this.reaper = null;
+    }
+
+    const sessions = Array.from(this.sessions.values());
+    await Promise.allSettled(sessions.map((session) => this.closeSession(session)));
+
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = null;
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Number of currently open MCP sessions
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Route an incoming HTTP request
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      this.sendJson(res, 200, { status: 'ok', sessions: this.sessions.size });
+      return;
+    }
+
+    if (!this.isAuthorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendJsonRpcError(res, 401, -32001, 'Unauthorized: missing or invalid bearer token');
+      return;
+    }
+
+    switch (url.pathname) {
+      case '/mcp':
+        await this.handleStreamableRequest(req, res);
+        return;
+      case '/sse':
+        if (req.method !== 'GET') {
+          this.sendJsonRpcError(res, 405, -32000, 'Method not allowed');
+          return;
+        }
+        await this.handleSseConnect(res);
+        return;
+      case '/messages':
+        if (req.method !== 'POST') {
+          this.sendJsonRpcError(res, 405, -32000, 'Method not allowed');
+          return;
+        }
+        await this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+        return;
+      default:
+        this.sendJsonRpcError(res, 404, -32000, `Not found: ${url.pathname}`);
+    }
+  }
+
+  /**
+   * Handle Streamable HTTP requests (POST, GET and DELETE on /mcp)
+   */
+  private async handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = this.headerValue(req, 'mcp-session-id');
+    const body = req.method === 'POST' ? await this.readJsonBody(req, res) : undefined;
+    if (body === INVALID_BODY) {
+      return;
+    }
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session || session.kind !== 'streamable') {
+        this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      session.lastActivity = Date.now();
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      this.sendJsonRpcError(res, 400, -32000, 'Bad Request: no valid session ID provided');
+      return;
+    }
+    if (this.isAtSessionLimit(res)) {
+      return;
+    }
+
+    const server = this.createSession();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, {
+          id,
+          kind: 'streamable',
+          transport,
+          server,
+          createdAt: Date.now(),
+          lastActivity: Date.now(),
+        });
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } catch (error) {
+      await this.discardSession(server, transport);
+      throw error;
+    }
+
+    // A rejected initialize request never becomes a session the reaper could find
+    if (!transport.sessionId) {
+      await this.discardSession(server, transport);
+    }
+  }
+
+  /**
+   * Open a legacy SSE stream for clients without Streamable HTTP support
+   */
+  private async handleSseConnect(res: ServerResponse): Promise<void> {
+    if (this.isAtSessionLimit(res)) {
+      return;
+    }
+
+    const server = this.createSession();
+    const transport = new SSEServerTransport('/messages', res);
+    const session: HttpSession = {
+      id: transport.sessionId,
+      kind: 'sse',
+      transport,
+      server,
+      createdAt: Date.now(),
+      lastActivity: Date.now(),
+    };
+
+    this.sessions.set(session.id, session);
+    transport.onclose = () => {
+      this.sessions.delete(session.id);
+    };
+
+    try {
+      await server.connect(transport);
+    } catch (error) {
+      this.sessions.delete(session.id);
+      await this.discardSession(server, transport);
+      throw error;
+    }
+  }
+
+  /**
+   * Deliver a client message to an open SSE session
+   */
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null
+  ): Promise<void> {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || session.kind !== 'sse') {
+      this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+
+    const body = await this.readJsonBody(req, res);
+    if (body === INVALID_BODY) {
+      return;
+    }
+
+    session.lastActivity = Date.now();
+    await (session.transport as SSEServerTransport).handlePostMessage(req, res, body);
+  }
+
+  /**
+   * Close a single session and its MCP server
+   */
+  private async closeSession(session: HttpSession): Promise<void> {
+    this.sessions.delete(session.id);
+    try {
+      await session.server.close();
+    } catch (error) {
+      console.error(`Failed to close session ${session.id}:`, error);
+    }
+  }
+
+  /**
+   * Close the server and transport of a session that never got registered
+   */
+  private async discardSession(
+    server: Server,
+    transport: StreamableHTTPServerTransport | SSEServerTransport
+  ): Promise<void> {
+    const results = await Promise.allSettled([server.close(), transport.close()]);
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        console.error('Failed to close an unregistered session:', result.reason);
+      }
+    }
+  }
+
+  /**
+   * Answer with 503 when no further session may be opened
+   */
+  private isAtSessionLimit(res: ServerResponse): boolean {
+    const { maxSessions } = this.options;
+    if (maxSessions <= 0 || this.sessions.size < maxSessions) {
+      return false;
+    }
+
+    res.setHeader('Retry-After', '60');
+    this.sendJsonRpcError(res, 503, -32000, `Too many sessions: the limit of ${maxSessions} is reached`);
+    return true;
+  }
+
+  /**
+   * Close sessions that have not seen a request within the idle timeout
+   */
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - this.options.sessionIdleTimeoutMs;
+    for (const session of this.sessions.values()) {
+      if (session.lastActivity < cutoff) {
+        void this.closeSession(session);
+      }
+    }
+  }
+
+  /**
+   * Check the bearer token against the configured one
+   */
+  private isAuthorized(req: IncomingMessage): boolean {
+    if (!this.options.authToken) {
+      return true;
+    }
+
+    const header = this.headerValue(req, 'authorization') || '';
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    if (!match) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.options.authToken);
+    const provided = Buffer.from(match[1].trim());
+    return expected.length === provided.length && timingSafeEqual(expected, provided);
+  }
+
+  /**
+   * Read and parse a JSON request body, answering the request on failure
+   */
+  private async readJsonBody(req: IncomingMessage, res: ServerResponse): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > this.options.maxBodyBytes) {
+        this.sendJsonRpcError(res, 413, -32000, `Request body exceeds ${this.options.maxBodyBytes} bytes`);
+        return INVALID_BODY;
+      }
+      chunks.push(chunk);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch {
+      this.sendJsonRpcError(res, 400, -32700, 'Parse error: request body is not valid JSON');
+      return INVALID_BODY;
+    }
+  }
+
+  private headerValue(req: IncomingMessage, name: string): string | undefined {
+    const value = req.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+    this.sendJson(res, status, {
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null,
+    });
+  }
+}
+
+/**
+ * Load HTTP transport options from environment variables
+ */
+export function loadHttpTransportOptions(): HttpTransportOptions {
+  return {
+    host: process.env.MCP_HTTP_HOST || '127.0.0.1',
+    port: parseInt(process.env.MCP_HTTP_PORT || '3000', 10),
+    authToken: process.env.MCP_HTTP_AUTH_TOKEN || undefined,
+    sessionIdleTimeoutMs: parseInt(process.env.MCP_HTTP_SESSION_IDLE_TIMEOUT_MS || '1800000', 10),
+    maxBodyBytes: parseInt(process.env.MCP_HTTP_MAX_BODY_BYTES || '10485760', 10),
+    maxSessions: parseInt(process.env.MCP_HTTP_MAX_SESSIONS || '100', 10),
+    sharedSessions: process.env.MCP_HTTP_SHARED_SESSIONS === 'true',
+  };
+}
+
+const INVALID_BODY = Symbol('invalid-body');
+
+// Type definitions
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  authToken?: string;
+  sessionIdleTimeoutMs: number;
+  maxBodyBytes: number;
+  // Open sessions allowed at once, 0 for no limit
+  maxSessions: number;
+  // Let every client see, switch to and start in the process-wide login sessions
+  sharedSessions: boolean;
+}
+
+interface HttpSession {
+  id: string;
+  kind: 'streamable' | 'sse';
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  createdAt: number;
+  lastActivity: number;
+}
@@ -0,0 +1,149 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { User } from '@supabase/supabase-js';
+
+import { Impersonation, SupabaseClient } from './supabase-client.js';
+import { decodeJwt, JwtClaims, mintSupabaseToken, verifyJwt } from './jwt.js';
+
+/**
+ * Impersonation
+ *
+ * Turns the `as_user` / `as_role` tool arguments into an identity the
+ * database, storage and SQL tools run as. `as_user` takes a user ID, an
+ * email or a raw access token; `as_role` picks the Postgres role. Users and
+ * roles get a token minted with the JWT secret that lives only for the
+ * call, so PostgREST, Storage and Postgres apply RLS exactly as they would
+ * for that user.
+ */
+export async function resolveImpersonation(
+  supabaseClient: SupabaseClient,
+  request: { asUser?: string; asRole?: string }
+): Promise<Impersonation> {
+  const { asUser, asRole } = request;
+  const { jwtSecret } = supabaseClient.getConfig();
+
+  if (asUser && decodeJwt(asUser)) {
+    return fromToken(supabaseClient, asUser, asRole);
+  }
+
+  if (asUser) {
+    const secret = requireSecret(jwtSecret, `impersonate ${asUser}`);
+    const user = await findUser(supabaseClient, asUser);
+    const source = asUser.includes('@') ? 'email' : 'user_id';
+    const minted = mintSupabaseToken(secret, {
+      role: asRole || user.role || 'authenticated',
+      sub: user.id,
+      email: user.email,
+      aud: user.aud || 'authenticated',
+      claims: {
+        phone: user.phone || '',
+        app_metadata: user.app_metadata,
+        user_metadata: user.user_metadata,
+        is_anonymous: user.is_anonymous ?? false,
+      },
+      expiresIn: TOKEN_LIFETIME_SECONDS,
+    });
+    return { token: minted.token, role: minted.claims.role!, claims: minted.claims, source };
+  }
+
+  const role = asRole!;
+  if (jwtSecret) {
+    const minted = mintSupabaseToken(jwtSecret, { role, expiresIn: TOKEN_LIFETIME_SECONDS });
+    return { token: minted.token, role, claims: minted.claims, source: 'role' };
+  }
+
+  // Without the secret, only the roles of the configured keys are available
+  const config = supabaseClient.getConfig();
+  const key = role === 'anon' ? config.anonKey : role === 'service_role' ? config.serviceRoleKey : null;
+  if (!key) {
+    requireSecret(jwtSecret, `run as role '${role}'`);
+  }
+  return { token: key!, role, claims: decodeJwt(key!)?.claims || { role }, source: 'role' };
+}
+
+/**
+ * Use a caller-supplied access token, checking it when the secret is known
+ */
+function fromToken(supabaseClient: SupabaseClient, token: string, asRole?: string): Impersonation {
+  const { jwtSecret } = supabaseClient.getConfig();
+  let claims: JwtClaims = decodeJwt(token)!.claims;
+
+  if (jwtSecret) {
+    const verification = verifyJwt(token, jwtSecret);
+    if (!verification.valid) {
+      throw new McpError(ErrorCode.InvalidParams, `as_user token is not valid: ${verification.error}`);
+    }
+  }
+
+  if (asRole && asRole !== claims.role) {
+    // Changing the role means re-signing the claims
+    const secret = requireSecret(jwtSecret, `change the role of the as_user token to '${asRole}'`);
+    const { iat, exp, ...rest } = claims;
+    const minted = mintSupabaseToken(secret, { role: asRole, claims: rest, expiresIn: TOKEN_LIFETIME_SECONDS });
+    token = minted.token;
+    claims = minted.claims;
+  }
+
+  return { token, role: claims.role || 'anon', claims, source: 'token' };
+}
+
+/**
+ * Look up a user by ID or email with the admin API (or auth.users when
+ * Postgres is configured, which avoids paging through every user)
+ */
+async function findUser(supabaseClient: SupabaseClient, idOrEmail: string): Promise<User> {
+  const admin = supabaseClient.getAdminClient().auth.admin;
+  let userId = idOrEmail;
+
+  if (idOrEmail.includes('@')) {
+    const postgres = supabaseClient.getPostgres();
+    const found = postgres
+      ? (await postgres.query('SELECT id FROM auth.users WHERE lower(email) = lower($1) LIMIT 1', [idOrEmail]))[0].rows[0]?.id
+      : await findUserIdByEmail(supabaseClient, idOrEmail);
+    if (!found) {
+      throw new McpError(ErrorCode.InvalidParams, `No user with email ${idOrEmail}`);
+    }
+    userId = found;
+  } else if (!UUID_PATTERN.test(idOrEmail)) {
+    throw new McpError(ErrorCode.InvalidParams, 'as_user must be a user ID, an email or an access token');
+  }
+
+  const { data, error } = await admin.getUserById(userId);
+  if (error || !data.user) {
+    throw new McpError(ErrorCode.InvalidParams, `Cannot load user ${idOrEmail}: ${error?.message || 'not found'}`);
+  }
+  return data.user;
+}
+
+async function findUserIdByEmail(supabaseClient: SupabaseClient, email: string): Promise<string | null> {
+  const admin = supabaseClient.getAdminClient().auth.admin;
+  const wanted = email.toLowerCase();
+
+  for (let page = 1; ; page++) {
+    const { data, error } = await admin.listUsers({ page, perPage: USER_PAGE_SIZE });
+    if (error) {
+      throw new McpError(ErrorCode.InvalidParams, `Cannot look up ${email}: ${error.message}`);
+    }
+    const match = data.users.find((user) => user.email?.toLowerCase() === wanted);
+    if (match) {
+      return match.id;
+    }
+    if (data.users.length < USER_PAGE_SIZE) {
+      return null;
+    }
+  }
+}
+
+function requireSecret(secret: string | undefined, action: string): string {
+  if (!secret) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Cannot ${action} without a JWT secret; set SUPABASE_JWT_SECRET or pass an access token as as_user`
+    );
+  }
+  return secret;
+}
+
+// Long enough for one tool call, short enough to be useless if it leaks
+const TOKEN_LIFETIME_SECONDS = 300;
+const USER_PAGE_SIZE = 1000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
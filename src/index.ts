@@ -1,108 +1,86 @@
 #!/usr/bin/env node
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  CallToolRequestSchema,
-  ErrorCode,
-  ListToolsRequestSchema,
-  McpError,
-} from '@modelcontextprotocol/sdk/types.js';
 import dotenv from 'dotenv';
 
 import { SupabaseClient } from './supabase-client.js';
-import { getConnectionTools, handleConnectionTool } from './tools/connection.js';
-import { getAuthTools, handleAuthTool } from './tools/auth.js';
-import { getSchemaTools, handleSchemaTool } from './tools/schema.js';
-import { getDatabaseTools, handleDatabaseTool } from './tools/database.js';
-import { getRealtimeTools, handleRealtimeTool } from './tools/realtime.js';
-import { getStorageTools, handleStorageTool } from './tools/storage.js';
-import { getSqlTools, handleSqlTool } from './tools/sql.js';
-import { getEnhancedSqlTools, handleEnhancedSqlTool } from './tools/enhanced-sql.js';
-import { getEdgeFunctionTools, handleEdgeFunctionTool } from './tools/edge-functions.js';
-import { getSecurityTools, handleSecurityTool } from './tools/security.js';
+import { createServer } from './server.js';
+import { HttpTransportServer, loadHttpTransportOptions } from './http-server.js';
+import { createToolRegistry } from './tools/index.js';
+import { loadSafetyPolicy } from './safety.js';
+import { closePostgresConnections } from './postgres.js';
+import { createPrivateSessionStore } from './session-store.js';
 
 dotenv.config();
 
-const server = new Server(
-  {
-    name: process.env.MCP_SERVER_NAME || 'supabase-mcp-server',
-    version: process.env.MCP_SERVER_VERSION || '1.0.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
+const registry = createToolRegistry();
+const safety = loadSafetyPolicy();
+
+// Transport mode: --transport=http on the command line wins over MCP_TRANSPORT
+function resolveTransport(): 'stdio' | 'http' {
+  const flag = process.argv.find((arg) => arg.startsWith('--transport='));
+  const transport = (flag ? flag.split('=')[1] : process.env.MCP_TRANSPORT || 'stdio').toLowerCase();
+
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Unknown transport: ${transport} (expected "stdio" or "http")`);
   }
-);
+  return transport;
+}
+
+async function runStdio() {
+  const server = createServer(new SupabaseClient(), registry, safety);
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  console.error('Supabase MCP Server running on stdio');
+}
 
-const supabaseClient = new SupabaseClient();
+async function runHttp() {
+  const options = loadHttpTransportOptions();
 
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      ...getConnectionTools(),
-      ...getAuthTools(),
-      ...getSchemaTools(),
-      ...getDatabaseTools(),
-      ...getRealtimeTools(),
-      ...getStorageTools(),
-      ...getSqlTools(),
-      ...getEnhancedSqlTools(),
-      ...getEdgeFunctionTools(),
-      ...getSecurityTools(),
-    ],
-  };
-});
+  // Fail fast on missing configuration instead of on the first session
+  new SupabaseClient();
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+  // Each client gets private login sessions unless they are explicitly shared
+  const httpServer = new HttpTransportServer(
+    () => createServer(
+      options.sharedSessions ? new SupabaseClient() : SupabaseClient.withSessionStore(createPrivateSessionStore()),
+      registry,
+      safety
+    ),
+    options
+  );
+  await httpServer.start();
+  console.error(`Supabase MCP Server running on http://${options.host}:${options.port}/mcp (SSE fallback at /sse)`);
 
-  try {
-    switch (true) {
-      case name.startsWith('connection_'):
-        return await handleConnectionTool(supabaseClient, name, args);
-      case name.startsWith('auth_'):
-        return await handleAuthTool(supabaseClient, name, args);
-      case name.startsWith('schema_'):
-        return await handleSchemaTool(supabaseClient, name, args);
-      case name.startsWith('db_'):
-        return await handleDatabaseTool(supabaseClient, name, args);
-      case name.startsWith('realtime_'):
-        return await handleRealtimeTool(supabaseClient, name, args);
-      case name.startsWith('storage_'):
-        return await handleStorageTool(supabaseClient, name, args);
-      case name.startsWith('sql_'):
-        return await handleSqlTool(supabaseClient, name, args);
-      case name.startsWith('edge_'):
-        return await handleEdgeFunctionTool(supabaseClient, name, args);
-      case name.startsWith('security_'):
-        return await handleSecurityTool(supabaseClient, name, args);
-      default:
-        throw new McpError(
-          ErrorCode.MethodNotFound,
-          `Unknown tool: ${name}`
-        );
-    }
-  } catch (error) {
-    if (error instanceof McpError) {
-      throw error;
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) {
+      return;
     }
-    throw new McpError(
-      ErrorCode.InternalError,
-      `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`
-    );
-  }
-});
+    shuttingDown = true;
+    console.error(`Received ${signal}, closing ${httpServer.getSessionCount()} session(s)...`);
+    await httpServer.close();
+    await closePostgresConnections();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => void shutdown('SIGINT'));
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
+}
 
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error('Supabase MCP Server running on stdio');
+  if (safety.getConfig().mode !== 'full') {
+    console.error(`Safety mode: ${safety.getConfig().mode}`);
+  }
+
+  if (resolveTransport() === 'http') {
+    await runHttp();
+  } else {
+    await runStdio();
+  }
 }
 
 main().catch((error) => {
   console.error('Server failed to start:', error);
   process.exit(1);
 });
-
@@ -0,0 +1,143 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * JSON Web Tokens
+ *
+ * HS256 signing and verification with the stack's JWT secret (`JWT_SECRET`
+ * in a self-hosted `.env`). PostgREST, GoTrue, Storage and Realtime all
+ * accept any token signed with that secret, so tokens minted here work
+ * like keys and sessions issued by the stack itself.
+ */
+
+/**
+ * Sign claims as an HS256 token
+ */
+export function signJwt(claims: JwtClaims, secret: string): string {
+  const header = base64UrlJson({ alg: 'HS256', typ: 'JWT' });
+  const payload = base64UrlJson(claims);
+  return `${header}.${payload}.${hmac(`${header}.${payload}`, secret)}`;
+}
+
+/**
+ * Decode a token without checking its signature (null when it is not a JWT)
+ */
+export function decodeJwt(token: string): DecodedJwt | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+  try {
+    return {
+      header: JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf-8')),
+      claims: JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf-8')),
+      signature: parts[2],
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check a token's signature and time claims against a secret
+ */
+export function verifyJwt(token: string, secret: string, now: number = Date.now()): JwtVerification {
+  const decoded = decodeJwt(token);
+  if (!decoded) {
+    return { valid: false, error: 'Not a JWT' };
+  }
+  if (decoded.header.alg !== 'HS256') {
+    return { valid: false, decoded, error: `Unsupported algorithm ${decoded.header.alg}; only HS256 can be verified with the JWT secret` };
+  }
+
+  const [header, payload] = token.split('.');
+  const expected = Buffer.from(hmac(`${header}.${payload}`, secret));
+  const actual = Buffer.from(decoded.signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, decoded, error: 'Invalid signature' };
+  }
+
+  const seconds = Math.floor(now / 1000);
+  if (typeof decoded.claims.exp === 'number' && decoded.claims.exp <= seconds) {
+    return { valid: false, decoded, error: `Expired at ${new Date(decoded.claims.exp * 1000).toISOString()}` };
+  }
+  if (typeof decoded.claims.nbf === 'number' && decoded.claims.nbf > seconds) {
+    return { valid: false, decoded, error: `Not valid before ${new Date(decoded.claims.nbf * 1000).toISOString()}` };
+  }
+
+  return { valid: true, decoded };
+}
+
+/**
+ * Build and sign a token shaped like the ones GoTrue issues. Explicit
+ * options win over the same keys in `claims`.
+ */
+export function mintSupabaseToken(secret: string, options: MintTokenOptions): { token: string; claims: JwtClaims } {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const role = options.role || 'authenticated';
+  const claims: JwtClaims = {
+    ...options.claims,
+    iss: options.issuer || options.claims?.iss || 'supabase',
+    role,
+    iat: issuedAt,
+  };
+
+  if (options.sub) {
+    claims.sub = options.sub;
+  }
+  if (options.email) {
+    claims.email = options.email;
+  }
+  // GoTrue sets the audience to the role for user sessions
+  const aud = options.aud || options.claims?.aud || (role === 'authenticated' ? 'authenticated' : undefined);
+  if (aud) {
+    claims.aud = aud;
+  }
+  if (options.expiresIn && options.expiresIn > 0) {
+    claims.exp = issuedAt + options.expiresIn;
+  }
+
+  return { token: signJwt(claims, secret), claims };
+}
+
+function hmac(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+function base64UrlJson(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+// Type definitions
+export interface JwtClaims {
+  role?: string;
+  sub?: string;
+  email?: string;
+  aud?: string | string[];
+  iss?: string;
+  iat?: number;
+  exp?: number;
+  nbf?: number;
+  [claim: string]: any;
+}
+
+export interface DecodedJwt {
+  header: { alg?: string; typ?: string; kid?: string; [key: string]: any };
+  claims: JwtClaims;
+  signature: string;
+}
+
+export interface JwtVerification {
+  valid: boolean;
+  decoded?: DecodedJwt;
+  error?: string;
+}
+
+export interface MintTokenOptions {
+  role?: string;
+  sub?: string;
+  email?: string;
+  aud?: string;
+  issuer?: string;
+  claims?: Record<string, any>;
+  expiresIn?: number;
+}
@@ -0,0 +1,314 @@
+import pg from 'pg';
+
+/**
+ * Direct Postgres Connection
+ *
+ * Optional connection pool for a profile's database, configured with
+ * DATABASE_URL (or `databaseUrl` in a profile). Tools that need real SQL
+ * (DDL, policies, arbitrary statements) run through it when it is
+ * configured and fall back to PostgREST otherwise. The pool connects
+ * lazily, so configuring it costs nothing until a tool uses it.
+ */
+export class PostgresConnection {
+  private pool: pg.Pool;
+
+  constructor(
+    source: string | pg.Pool,
+    options: PostgresOptions = loadPostgresOptions(),
+    private authContext: AuthContext | null = null
+  ) {
+    if (source instanceof pg.Pool) {
+      this.pool = source;
+      return;
+    }
+
+    this.pool = new pg.Pool({
+      connectionString: source,
+      max: options.poolSize,
+      statement_timeout: options.statementTimeoutMs || undefined,
+      connectionTimeoutMillis: options.connectTimeoutMs,
+      allowExitOnIdle: true,
+    });
+
+    // Idle clients can fail when the server restarts; the pool replaces them
+    this.pool.on('error', (error) => {
+      console.error('Postgres pool error:', error.message);
+    });
+  }
+
+  /**
+   * Run SQL and return one result per statement. Parameters are only
+   * allowed with a single statement (Postgres extended protocol).
+   */
+  async query(sql: string, params: any[] = []): Promise<SqlResult[]> {
+    const values = params.length > 0 ? params : undefined;
+    if (this.authContext) {
+      return this.transaction(async (client) => toSqlResults(await client.query(sql, values)));
+    }
+    const result = await this.pool.query(sql, values);
+    return toSqlResults(result);
+  }
+
+  /**
+   * Run exactly one statement. SQL holding several is rejected by the
+   * server instead of run, so callers can pass text they did not write.
+   */
+  async statement(sql: string, params: any[] = []): Promise<SqlResult> {
+    const config = singleStatement(sql, params);
+    if (this.authContext) {
+      return this.transaction(async (client) => toSqlResults(await client.query(config))[0]);
+    }
+    return toSqlResults(await this.pool.query(config))[0];
+  }
+
+  /**
+   * Run a function inside a transaction on a dedicated client. With
+   * `rollback` the transaction is always rolled back, which makes any
+   * statement safe to try.
+   */
+  async transaction<T>(
+    fn: (client: pg.PoolClient) => Promise<T>,
+    options: { rollback?: boolean } = {}
+  ): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      if (this.authContext) {
+        await setLocalAuthContext(client, this.authContext);
+      }
+      const result = await fn(client);
+      await client.query(options.rollback ? 'ROLLBACK' : 'COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * View of this connection whose statements run as a role with JWT claims,
+   * each inside its own transaction
+   */
+  withAuthContext(context: AuthContext): PostgresConnection {
+    return new PostgresConnection(this.pool, undefined, context);
+  }
+
+  /**
+   * Close every pooled connection
+   */
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
+
+// Pools hold no per-client state, so HTTP sessions share one per database
+const connections = new Map<string, PostgresConnection>();
+
+/**
+ * Shared connection for a database URL, created on first use
+ */
+export function getPostgresConnection(connectionString: string): PostgresConnection {
+  let connection = connections.get(connectionString);
+  if (!connection) {
+    connection = new PostgresConnection(connectionString);
+    connections.set(connectionString, connection);
+  }
+  return connection;
+}
+
+/**
+ * Close every shared connection (on shutdown)
+ */
+export async function closePostgresConnections(): Promise<void> {
+  const open = Array.from(connections.values());
+  connections.clear();
+  await Promise.all(open.map((connection) => connection.close()));
+}
+
+/**
+ * Load pool settings from environment variables
+ */
+export function loadPostgresOptions(): PostgresOptions {
+  return {
+    poolSize: parseInt(process.env.DATABASE_POOL_SIZE || '5', 10),
+    statementTimeoutMs: parseInt(process.env.DATABASE_STATEMENT_TIMEOUT_MS || '30000', 10),
+    connectTimeoutMs: parseInt(process.env.DATABASE_CONNECT_TIMEOUT_MS || '10000', 10),
+  };
+}
+
+/**
+ * Normalize pg results (an array for multi-statement SQL) into plain objects
+ */
+export function toSqlResults(result: pg.QueryResult | pg.QueryResult[]): SqlResult[] {
+  return (Array.isArray(result) ? result : [result]).map((statement) => ({
+    command: statement.command,
+    rowCount: statement.rowCount,
+    rows: statement.rows,
+    fields: (statement.fields || []).map((field) => field.name),
+  }));
+}
+
+/**
+ * Query config that always uses the extended protocol, which takes a
+ * single statement; pg would otherwise send parameterless SQL as a simple
+ * query, where `;` starts another statement. Text holding several
+ * statements is rejected here already, with a clearer error than the
+ * server's.
+ */
+export function singleStatement(text: string, values: any[] = []): pg.QueryConfig {
+  const statements = splitStatements(text);
+  if (statements.length > 1) {
+    throw new Error(`Expected a single SQL statement, got ${statements.length}`);
+  }
+  return { text, values, queryMode: 'extended' } as pg.QueryConfig;
+}
+
+/**
+ * Split SQL into its statements, with comments removed. Semicolons inside
+ * string literals, quoted identifiers, dollar-quoted bodies and comments do
+ * not separate statements, and empty statements are dropped.
+ */
+export function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let i = 0;
+
+  const finish = () => {
+    if (current.trim()) {
+      statements.push(current.trim());
+    }
+    current = '';
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+      current += ' ';
+    } else if (char === '/' && next === '*') {
+      // Block comments nest in Postgres
+      let depth = 0;
+      do {
+        if (sql.startsWith('/*', i)) {
+          depth++;
+          i += 2;
+        } else if (sql.startsWith('*/', i)) {
+          depth--;
+          i += 2;
+        } else {
+          i++;
+        }
+      } while (depth > 0 && i < sql.length);
+      current += ' ';
+    } else if (char === "'" || char === '"') {
+      // E'...' strings take backslash escapes; doubled quotes work in all of them
+      const backslashes = char === "'" && /[eE]/.test(sql[i - 1] || '') && !IDENTIFIER_CHAR.test(sql[i - 2] || '');
+      let end = i + 1;
+      while (end < sql.length) {
+        if (backslashes && sql[end] === '\\') {
+          end += 2;
+        } else if (sql[end] === char && sql[end + 1] === char) {
+          end += 2;
+        } else if (sql[end] === char) {
+          break;
+        } else {
+          end++;
+        }
+      }
+      current += sql.slice(i, end + 1);
+      i = end + 1;
+    } else if (char === '$' && !IDENTIFIER_CHAR.test(sql[i - 1] || '')) {
+      // $tag$...$tag$, but not a $1 parameter
+      const tag = sql.slice(i).match(/^\$([A-Za-z_][A-Za-z0-9_]*)?\$/)?.[0];
+      if (tag) {
+        const end = sql.indexOf(tag, i + tag.length);
+        const stop = end === -1 ? sql.length : end + tag.length;
+        current += sql.slice(i, stop);
+        i = stop;
+      } else {
+        current += char;
+        i++;
+      }
+    } else if (char === ';') {
+      finish();
+      i++;
+    } else {
+      current += char;
+      i++;
+    }
+  }
+  finish();
+
+  return statements;
+}
+
+const IDENTIFIER_CHAR = /[A-Za-z0-9_$]/;
+
+/**
+ * Apply a role and JWT claims for the rest of the current transaction, the
+ * same way PostgREST does for API requests, so RLS policies see `auth.uid()`
+ */
+export async function setLocalAuthContext(
+  client: pg.PoolClient,
+  context: AuthContext
+): Promise<void> {
+  await client.query(`SET LOCAL ROLE ${quoteIdentifier(context.role)}`);
+  await client.query("SELECT set_config('request.jwt.claims', $1, true)", [JSON.stringify(context.claims)]);
+  if (context.claims.sub) {
+    await client.query("SELECT set_config('request.jwt.claim.sub', $1, true)", [String(context.claims.sub)]);
+  }
+}
+
+/**
+ * Quote an identifier, keeping a `schema.name` qualification. Parts that are
+ * already properly quoted are left as they are.
+ */
+export function quoteIdentifier(name: string): string {
+  const parts = name.match(/"(?:[^"]|"")*"|[^.]+/g) || [name];
+  return parts
+    .map((part) => (QUOTED_IDENTIFIER.test(part) ? part : `"${part.trim().replace(/"/g, '""')}"`))
+    .join('.');
+}
+
+const QUOTED_IDENTIFIER = /^"(?:[^"]|"")*"$/;
+
+/**
+ * Render a Postgres error with the fields that help fix it
+ */
+export function describePostgresError(error: unknown): Record<string, any> {
+  if (error instanceof Error && 'code' in error) {
+    const pgError = error as pg.DatabaseError;
+    return {
+      error: pgError.message,
+      code: pgError.code,
+      detail: pgError.detail,
+      hint: pgError.hint,
+      position: pgError.position,
+    };
+  }
+  return { error: error instanceof Error ? error.message : String(error) };
+}
+
+// Type definitions
+export interface PostgresOptions {
+  poolSize: number;
+  statementTimeoutMs: number;
+  connectTimeoutMs: number;
+}
+
+export interface AuthContext {
+  role: string;
+  claims: Record<string, any>;
+}
+
+export interface SqlResult {
+  command: string;
+  rowCount: number | null;
+  rows: Record<string, any>[];
+  fields: string[];
+}
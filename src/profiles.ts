@@ -0,0 +1,128 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { SupabaseConfig } from './supabase-client.js';
+
+/**
+ * Connection Profiles
+ *
+ * Profiles let one server target several self-hosted Supabase stacks
+ * (dev, staging, prod, ...). They are read from the JSON file named by
+ * SUPABASE_PROFILES_FILE; the classic SUPABASE_URL / SUPABASE_ANON_KEY /
+ * SUPABASE_SERVICE_ROLE_KEY variables still work and become the `default`
+ * profile. String values may reference environment variables as `${NAME}`
+ * so keys don't have to live in the file.
+ */
+export function loadProfiles(): ProfileSet {
+  const profiles = new Map<string, SupabaseProfile>();
+  let defaultProfile: string | undefined;
+
+  const envProfile = loadEnvProfile();
+  if (envProfile) {
+    profiles.set(envProfile.name, envProfile);
+  }
+
+  const profilesFile = process.env.SUPABASE_PROFILES_FILE;
+  if (profilesFile) {
+    const file = readProfilesFile(profilesFile);
+    defaultProfile = file.defaultProfile;
+
+    for (const [name, entry] of Object.entries(file.profiles || {})) {
+      profiles.set(name, parseProfile(name, entry, profilesFile));
+    }
+  }
+
+  if (profiles.size === 0) {
+    throw new Error('Missing required Supabase environment variables');
+  }
+
+  defaultProfile = process.env.SUPABASE_PROFILE || defaultProfile || profiles.keys().next().value!;
+  if (!profiles.has(defaultProfile)) {
+    throw new Error(`Default profile '${defaultProfile}' is not defined. Available profiles: ${Array.from(profiles.keys()).join(', ')}`);
+  }
+
+  return { profiles, defaultProfile };
+}
+
+/**
+ * Build the `default` profile from the single-project environment variables
+ */
+function loadEnvProfile(): SupabaseProfile | null {
+  const url = process.env.SUPABASE_URL;
+  const anonKey = process.env.SUPABASE_ANON_KEY;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !anonKey || !serviceRoleKey) {
+    return null;
+  }
+
+  return {
+    name: 'default',
+    url,
+    anonKey,
+    serviceRoleKey,
+    databaseUrl: process.env.DATABASE_URL || undefined,
+    jwtSecret: process.env.SUPABASE_JWT_SECRET || undefined,
+  };
+}
+
+/**
+ * Read and parse the profiles file
+ */
+function readProfilesFile(filePath: string): ProfilesFile {
+  const resolved = path.resolve(filePath);
+  let raw: string;
+
+  try {
+    raw = readFileSync(resolved, 'utf-8');
+  } catch (error) {
+    throw new Error(`Cannot read profiles file ${resolved}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Profiles file ${resolved} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Validate one profile entry and expand ${ENV} references
+ */
+function parseProfile(name: string, entry: Record<string, any>, filePath: string): SupabaseProfile {
+  const expanded: Record<string, any> = {};
+  for (const [key, value] of Object.entries(entry || {})) {
+    expanded[key] = typeof value === 'string' ? expandEnv(value) : value;
+  }
+
+  const missing = ['url', 'anonKey', 'serviceRoleKey'].filter((key) => !expanded[key]);
+  if (missing.length > 0) {
+    throw new Error(`Profile '${name}' in ${filePath} is missing: ${missing.join(', ')}`);
+  }
+
+  return {
+    ...expanded,
+    databaseUrl: expanded.databaseUrl || undefined,
+    jwtSecret: expanded.jwtSecret || undefined,
+    name,
+  } as SupabaseProfile;
+}
+
+function expandEnv(value: string): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, variable) => process.env[variable] || '');
+}
+
+// Type definitions
+export interface SupabaseProfile extends SupabaseConfig {
+  name: string;
+  description?: string;
+}
+
+export interface ProfileSet {
+  profiles: Map<string, SupabaseProfile>;
+  defaultProfile: string;
+}
+
+interface ProfilesFile {
+  defaultProfile?: string;
+  profiles?: Record<string, Record<string, any>>;
+}
@@ -0,0 +1,201 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+  PromptMessage,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { SupabaseClient } from './supabase-client.js';
+import { ToolRegistry } from './tool-registry.js';
+import { SafetyPolicy } from './safety.js';
+import { ResourceContext, readResource } from './resources.js';
+
+/**
+ * MCP Prompts
+ *
+ * Parameterized instructions for recurring Supabase workflows. Each prompt
+ * embeds live context (tables, policies, function source) as resources
+ * read at request time, so the assistant starts from the project's actual
+ * state. Context that cannot be loaded is replaced by a short note rather
+ * than failing the prompt.
+ */
+export function registerPromptHandlers(
+  server: Server,
+  supabaseClient: SupabaseClient,
+  registry: ToolRegistry,
+  safety: SafetyPolicy
+): void {
+  const context: ResourceContext = { server, supabaseClient, registry, safety };
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: PROMPTS.map(({ name, title, description, arguments: promptArguments }) => ({
+        name,
+        title,
+        description,
+        arguments: promptArguments,
+      })),
+    };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args = {} } = request.params;
+    const prompt = PROMPTS.find((candidate) => candidate.name === name);
+
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const missing = prompt.arguments
+      .filter((argument) => argument.required && !args[argument.name])
+      .map((argument) => argument.name);
+    if (missing.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt '${name}' requires: ${missing.join(', ')}`);
+    }
+
+    return {
+      description: prompt.description,
+      messages: await prompt.build(context, args),
+    };
+  });
+}
+
+/**
+ * Embed a resource in a prompt, or a note explaining why it is missing
+ */
+async function embedResource(context: ResourceContext, uri: string): Promise<PromptMessage> {
+  try {
+    const data = await readResource(context, uri);
+    return {
+      role: 'user',
+      content: {
+        type: 'resource',
+        resource: { uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) },
+      },
+    };
+  } catch (error) {
+    return {
+      role: 'user',
+      content: {
+        type: 'text',
+        text: `(Context ${uri} could not be loaded: ${error instanceof Error ? error.message : String(error)})`,
+      },
+    };
+  }
+}
+
+function instruction(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+async function buildAuditRls(context: ResourceContext, args: Record<string, string>): Promise<PromptMessage[]> {
+  const schema = args.schema || 'public';
+
+  return [
+    instruction(
+      `Audit Row Level Security for every table in the "${schema}" schema. The current tables and policies are attached below.\n\n` +
+      'For each table, check:\n' +
+      '1. RLS is enabled. Any table readable through the API without RLS is a finding.\n' +
+      '2. RLS is enabled but no policies exist (all access is denied; confirm this is intended).\n' +
+      '3. Policies whose USING or WITH CHECK expression is `true` or does not reference `auth.uid()` / `auth.jwt()`.\n' +
+      '4. INSERT and UPDATE policies without a WITH CHECK expression.\n' +
+      '5. Write policies granted to `anon` or `public`.\n' +
+      '6. Policies that trust `raw_user_meta_data` / `user_metadata`, which users can edit themselves.\n\n' +
+      'Report the findings as a table (table, severity, issue, fix) followed by the SQL to fix each one. ' +
+      'Use security_check_rls_status and security_test_policy to confirm anything the attached context does not show. ' +
+      'Do not apply any change until I confirm it.'
+    ),
+    await embedResource(context, `supabase://tables/${encodeURIComponent(schema)}`),
+    await embedResource(context, `supabase://policies/${encodeURIComponent(schema)}`),
+  ];
+}
+
+async function buildOwnerTable(context: ResourceContext, args: Record<string, string>): Promise<PromptMessage[]> {
+  const schema = args.schema || 'public';
+  const ownerColumn = args.owner_column || 'user_id';
+  const description = args.description ? `\n\nWhat the table stores: ${args.description}` : '';
+
+  return [
+    instruction(
+      `Design a table "${schema}.${args.table_name}" where every row belongs to one user and only that user can see or change it.${description}\n\n` +
+      'Requirements:\n' +
+      '- A primary key (`id bigint generated always as identity` or `uuid default gen_random_uuid()`), plus `created_at timestamptz not null default now()`.\n' +
+      `- An owner column \`${ownerColumn} uuid not null default auth.uid() references auth.users (id) on delete cascade\`, with an index.\n` +
+      '- Row Level Security enabled.\n' +
+      `- Separate SELECT, INSERT, UPDATE and DELETE policies for the \`authenticated\` role using \`(select auth.uid()) = ${ownerColumn}\`; INSERT and UPDATE also need it as WITH CHECK.\n` +
+      '- No policies for `anon`.\n\n' +
+      'Follow the naming and column conventions of the existing tables attached below and avoid name clashes. ' +
+      'Return one migration script, then explain how to verify the policies with security_test_policy. ' +
+      'Do not run the migration until I confirm it.'
+    ),
+    await embedResource(context, `supabase://tables/${encodeURIComponent(schema)}`),
+  ];
+}
+
+async function buildDebugFunction(context: ResourceContext, args: Record<string, string>): Promise<PromptMessage[]> {
+  const details = [
+    args.error ? `The error I see:\n${args.error}` : '',
+    args.payload ? `The payload I send:\n${args.payload}` : '',
+  ].filter(Boolean).join('\n\n');
+
+  return [
+    instruction(
+      `Find out why the edge function "${args.function_name}" fails. Its source and import map are attached below.` +
+      (details ? `\n\n${details}` : '') + '\n\n' +
+      'Work through it step by step:\n' +
+      '1. Read the code for errors that match the symptom: unhandled rejections, missing env variables, wrong JSON parsing, unsupported imports.\n' +
+      `2. Reproduce the failure with edge_invoke_function (function_name: "${args.function_name}"), using the payload above if given.\n` +
+      '3. Check the request side: Authorization header, CORS preflight handling, content type.\n' +
+      '4. Check anything the function calls in Supabase (tables, RLS, storage) with the read-only tools.\n\n' +
+      'Explain the root cause, then propose a corrected version of the function. ' +
+      'Do not redeploy it until I confirm.'
+    ),
+    await embedResource(context, `supabase://function/${encodeURIComponent(args.function_name)}`),
+  ];
+}
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'audit_rls',
+    title: 'Audit Row Level Security',
+    description: 'Review RLS status and policies on every table in a schema and propose fixes',
+    arguments: [
+      { name: 'schema', description: 'Schema to audit (default: public)', required: false },
+    ],
+    build: buildAuditRls,
+  },
+  {
+    name: 'design_owner_table',
+    title: 'Design an owner-only table',
+    description: 'Design a table whose rows are only visible to and editable by their owner',
+    arguments: [
+      { name: 'table_name', description: 'Name of the new table', required: true },
+      { name: 'description', description: 'What the table stores', required: false },
+      { name: 'owner_column', description: 'Column referencing auth.users (default: user_id)', required: false },
+      { name: 'schema', description: 'Schema for the table (default: public)', required: false },
+    ],
+    build: buildOwnerTable,
+  },
+  {
+    name: 'debug_edge_function',
+    title: 'Debug an edge function',
+    description: 'Investigate why an edge function fails, starting from its source code',
+    arguments: [
+      { name: 'function_name', description: 'Name of the edge function', required: true },
+      { name: 'error', description: 'Error message or unexpected output', required: false },
+      { name: 'payload', description: 'Request payload that triggers the failure', required: false },
+    ],
+    build: buildDebugFunction,
+  },
+];
+
+// Type definitions
+interface PromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  arguments: { name: string; description: string; required: boolean }[];
+  build: (context: ResourceContext, args: Record<string, string>) => Promise<PromptMessage[]>;
+}
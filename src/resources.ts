@@ -0,0 +1,619 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { UriTemplate, Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  Resource,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { SupabaseClient } from './supabase-client.js';
+import { ToolRegistry } from './tool-registry.js';
+import { SafetyPolicy } from './safety.js';
+import { createAuditEntry, getAuditLog } from './audit-log.js';
+import { columnsFromOpenApi, fetchOpenApiSpec, fetchPgMeta, tablesFromOpenApi } from './tools/schema.js';
+import { getLocalFunctionHandler } from './tools/edge-functions.js';
+
+/**
+ * MCP Resources
+ *
+ * Read-only `supabase://` views of the project (tables, views, columns,
+ * RLS policies, edge functions and storage) that clients can attach as
+ * context without calling tools. Introspection prefers the postgres-meta
+ * API served under /pg and falls back to the PostgREST OpenAPI description
+ * where it can. Tables hidden by the safety policy are never exposed, and
+ * neither are resources whose matching tool the policy disables. Every read
+ * is recorded in the audit log like a tool call.
+ */
+export function registerResourceHandlers(
+  server: Server,
+  supabaseClient: SupabaseClient,
+  registry: ToolRegistry,
+  safety: SafetyPolicy
+): void {
+  const context: ResourceContext = { server, supabaseClient, registry, safety };
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: await listResources(context) };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: RESOURCE_ROUTES
+        .filter((route) => UriTemplate.isTemplate(route.uriTemplate) && isRouteAllowed(context, route))
+        .map(({ uriTemplate, name, title, description }) => ({
+          uriTemplate,
+          name,
+          title,
+          description,
+          mimeType: 'application/json',
+        })),
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const data = await readResource(context, uri);
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+    };
+  });
+}
+
+/**
+ * Fixed resources plus one entry per table and bucket. Lookups are best
+ * effort so an unreachable service never breaks the listing.
+ */
+async function listResources(context: ResourceContext): Promise<Resource[]> {
+  const resources: Resource[] = RESOURCE_ROUTES
+    .filter((route) => !UriTemplate.isTemplate(route.uriTemplate) && isRouteAllowed(context, route))
+    .map(({ uriTemplate, name, title, description }) => ({
+      uri: uriTemplate,
+      name,
+      title,
+      description,
+      mimeType: 'application/json',
+    }));
+
+  const tables = await readTables(context, 'public').catch(() => null);
+  for (const table of tables?.tables || []) {
+    resources.push({
+      uri: table.uri,
+      name: `table:${table.schema}.${table.name}`,
+      title: `Table ${table.schema}.${table.name}`,
+      mimeType: 'application/json',
+    });
+  }
+
+  // Bucket entries need both the bucket list and the bucket contents routes
+  const bucketsAllowed = RESOURCE_ROUTES
+    .filter((route) => route.name === 'buckets' || route.name === 'bucket')
+    .every((route) => isRouteAllowed(context, route));
+  const buckets = bucketsAllowed ? await readBuckets(context).catch(() => null) : null;
+  for (const bucket of buckets?.buckets || []) {
+    resources.push({
+      uri: bucket.uri,
+      name: `bucket:${bucket.name}`,
+      title: `Storage bucket ${bucket.name}`,
+      mimeType: 'application/json',
+    });
+  }
+
+  return resources;
+}
+
+/**
+ * Read a resource and record the read in the audit log, including reads
+ * that are rejected or fail
+ */
+export async function readResource(context: ResourceContext, uri: string): Promise<any> {
+  const startedAt = Date.now();
+  const audit = (error?: unknown) => getAuditLog().record(
+    createAuditEntry({
+      tool: 'resources/read',
+      category: 'resources',
+      safety: 'read',
+      profile: context.supabaseClient.getProfileName(),
+      client: context.server.getClientVersion()?.name ?? null,
+      authUser: context.supabaseClient.getCurrentUser()?.email ?? null,
+      args: { uri },
+      startedAt,
+      ...(error === undefined ? {} : { error }),
+    }),
+    context.supabaseClient
+  );
+
+  try {
+    const data = await resolveResource(context, uri);
+    await audit();
+    return data;
+  } catch (error) {
+    await audit(error);
+    throw error;
+  }
+}
+
+/**
+ * Resolve a URI against the routes and read it
+ */
+async function resolveResource(context: ResourceContext, uri: string): Promise<any> {
+  for (const route of RESOURCE_ROUTES) {
+    const variables = new UriTemplate(route.uriTemplate).match(uri);
+    if (!variables) {
+      continue;
+    }
+
+    if (!isRouteAllowed(context, route)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Resource ${uri} is disabled: tool '${route.tool}' is not allowed by the safety policy`
+      );
+    }
+
+    try {
+      return await route.read(context, decodeVariables(variables));
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to read resource ${uri}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+}
+
+/**
+ * Resources that mirror a tool are only exposed while that tool is allowed
+ */
+function isRouteAllowed(context: ResourceContext, route: ResourceRoute): boolean {
+  if (!route.tool) {
+    return true;
+  }
+
+  const registration = context.registry.get(route.tool);
+  return registration !== undefined && context.safety.isToolAllowed(registration);
+}
+
+async function readTables(context: ResourceContext, schema: string) {
+  const allowed = (name: string) => context.safety.isTableAllowed(schema, name);
+
+  try {
+    const tables = await fetchPgMeta<PgMetaTable[]>(context.supabaseClient, '/tables', {
+      included_schemas: schema,
+    });
+
+    return {
+      schema,
+      source: 'postgres-meta',
+      tables: tables
+        .filter((table) => allowed(table.name))
+        .map((table) => ({
+          schema: table.schema,
+          name: table.name,
+          uri: tableUri(table.schema, table.name),
+          rls_enabled: table.rls_enabled,
+          estimated_rows: table.live_rows_estimate ?? null,
+          comment: table.comment ?? null,
+        })),
+    };
+  } catch (metaError) {
+    const spec = await fetchOpenApiSpec(context.supabaseClient, schema);
+
+    return {
+      schema,
+      source: 'openapi',
+      tables: tablesFromOpenApi(spec, schema)
+        .filter((table) => allowed(table.table_name))
+        .map((table) => ({
+          schema,
+          name: table.table_name,
+          uri: tableUri(schema, table.table_name),
+        })),
+      note: `postgres-meta unavailable (${errorMessage(metaError)}); views exposed through the API are listed as tables`,
+    };
+  }
+}
+
+async function readViews(context: ResourceContext, schema: string) {
+  const views = await fetchPgMeta<PgMetaView[]>(context.supabaseClient, '/views', {
+    included_schemas: schema,
+  });
+
+  return {
+    schema,
+    source: 'postgres-meta',
+    views: views
+      .filter((view) => context.safety.isTableAllowed(view.schema, view.name))
+      .map((view) => ({
+        schema: view.schema,
+        name: view.name,
+        uri: tableUri(view.schema, view.name),
+        is_updatable: view.is_updatable,
+        comment: view.comment ?? null,
+      })),
+  };
+}
+
+async function readPolicies(context: ResourceContext, schema: string) {
+  const policies = await fetchPgMeta<PgMetaPolicy[]>(context.supabaseClient, '/policies', {
+    included_schemas: schema,
+  });
+
+  return {
+    schema,
+    source: 'postgres-meta',
+    policies: policies
+      .filter((policy) => context.safety.isTableAllowed(policy.schema, policy.table))
+      .map((policy) => ({
+        table: policy.table,
+        table_uri: tableUri(policy.schema, policy.table),
+        ...formatPolicy(policy),
+      })),
+  };
+}
+
+async function readTable(context: ResourceContext, schema: string, name: string) {
+  if (!context.safety.isTableAllowed(schema, name)) {
+    throw new McpError(ErrorCode.InvalidRequest, `Table '${schema}.${name}' is hidden by the safety policy`);
+  }
+
+  let tables: PgMetaTable[];
+  try {
+    tables = await fetchPgMeta<PgMetaTable[]>(context.supabaseClient, '/tables', {
+      included_schemas: schema,
+      include_columns: 'true',
+    });
+  } catch (metaError) {
+    // PostgREST only knows exposed columns and their types
+    const columns = columnsFromOpenApi(await fetchOpenApiSpec(context.supabaseClient, schema), name);
+    if (!columns) {
+      throw new McpError(ErrorCode.InvalidParams, `Table '${schema}.${name}' not found`);
+    }
+
+    return {
+      schema,
+      name,
+      uri: tableUri(schema, name),
+      source: 'openapi',
+      columns,
+      note: `postgres-meta unavailable (${errorMessage(metaError)}); keys, relationships and policies are not included`,
+    };
+  }
+
+  const table = tables.find((candidate) => candidate.name === name);
+  const view = table
+    ? undefined
+    : (await fetchPgMeta<PgMetaView[]>(context.supabaseClient, '/views', {
+        included_schemas: schema,
+        include_columns: 'true',
+      })).find((candidate) => candidate.name === name);
+  const relation = table || view;
+
+  if (!relation) {
+    throw new McpError(ErrorCode.InvalidParams, `Table '${schema}.${name}' not found`);
+  }
+
+  const policies = table
+    ? (await fetchPgMeta<PgMetaPolicy[]>(context.supabaseClient, '/policies', { included_schemas: schema }))
+        .filter((policy) => policy.table === name)
+    : [];
+
+  return {
+    schema,
+    name,
+    uri: tableUri(schema, name),
+    source: 'postgres-meta',
+    type: table ? 'table' : 'view',
+    comment: relation.comment ?? null,
+    rls_enabled: table ? table.rls_enabled : null,
+    columns: (relation.columns || []).map((column) => ({
+      name: column.name,
+      data_type: column.data_type,
+      format: column.format,
+      nullable: column.is_nullable,
+      default: column.default_value ?? null,
+      identity: column.is_identity,
+      unique: column.is_unique,
+      enum_values: column.enums?.length ? column.enums : undefined,
+      comment: column.comment ?? null,
+    })),
+    primary_key: (table?.primary_keys || []).map((key) => key.name),
+    relationships: (table?.relationships || []).map((relationship) => ({
+      constraint: relationship.constraint_name,
+      from: `${relationship.source_schema}.${relationship.source_table_name}.${relationship.source_column_name}`,
+      to: `${relationship.target_table_schema}.${relationship.target_table_name}.${relationship.target_column_name}`,
+    })),
+    policies: policies.map(formatPolicy),
+  };
+}
+
+async function readFunctions() {
+  const functions = getLocalFunctionHandler().listFunctions();
+
+  return {
+    source: 'local_handler',
+    functions: functions.map((func) => ({
+      name: func.name,
+      uri: `supabase://function/${encodeURIComponent(func.name)}`,
+      status: func.status,
+      deployed_at: func.deployedAt,
+      runtime: func.runtime,
+    })),
+    note: 'Lists functions deployed through edge_deploy_function in this server process',
+  };
+}
+
+async function readFunction(name: string) {
+  const func = getLocalFunctionHandler().getFunctionDetails(name);
+  if (!func) {
+    throw new McpError(ErrorCode.InvalidParams, `Edge function '${name}' not found`);
+  }
+
+  return {
+    name: func.name,
+    status: func.status,
+    deployed_at: func.deployedAt,
+    runtime: 'nodejs',
+    import_map: func.importMap,
+    code: func.originalCode,
+  };
+}
+
+async function readBuckets(context: ResourceContext) {
+  const { data, error } = await context.supabaseClient.getAdminClient().storage.listBuckets();
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return {
+    buckets: (data || []).map((bucket) => ({
+      name: bucket.name,
+      uri: storageUri(bucket.name),
+      public: bucket.public,
+      file_size_limit: bucket.file_size_limit ?? null,
+      allowed_mime_types: bucket.allowed_mime_types ?? null,
+      created_at: bucket.created_at,
+    })),
+  };
+}
+
+async function readBucketPath(context: ResourceContext, bucket: string, path = '') {
+  const { data, error } = await context.supabaseClient
+    .getAdminClient()
+    .storage.from(bucket)
+    .list(path, { limit: 1000, sortBy: { column: 'name', order: 'asc' } });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const entries = data || [];
+  const childPath = (name: string) => (path ? `${path}/${name}` : name);
+
+  return {
+    bucket,
+    path,
+    // Storage reports folders as entries without an id
+    folders: entries
+      .filter((entry) => entry.id === null)
+      .map((entry) => ({ name: entry.name, uri: storageUri(bucket, childPath(entry.name)) })),
+    files: entries
+      .filter((entry) => entry.id !== null)
+      .map((entry) => ({
+        name: entry.name,
+        path: childPath(entry.name),
+        size: entry.metadata?.size ?? null,
+        mimetype: entry.metadata?.mimetype ?? null,
+        updated_at: entry.updated_at,
+      })),
+    truncated: entries.length >= 1000,
+  };
+}
+
+function formatPolicy(policy: PgMetaPolicy) {
+  return {
+    name: policy.name,
+    command: policy.command,
+    action: policy.action,
+    roles: policy.roles,
+    using: policy.definition,
+    with_check: policy.check,
+  };
+}
+
+function tableUri(schema: string, name: string): string {
+  return `supabase://table/${encodeURIComponent(schema)}/${encodeURIComponent(name)}`;
+}
+
+function storageUri(bucket: string, path?: string): string {
+  const encodedPath = path ? `/${path.split('/').map(encodeURIComponent).join('/')}` : '';
+  return `supabase://storage/${encodeURIComponent(bucket)}${encodedPath}`;
+}
+
+function decodeVariables(variables: Variables): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(variables).map(([key, value]) => [
+      key,
+      decodeURIComponent(Array.isArray(value) ? value.join(',') : value),
+    ])
+  );
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Static URIs are listed as resources, URIs with variables as templates. Tables,
+// views and policies are filtered by the table allow and deny lists instead of a tool.
+const RESOURCE_ROUTES: ResourceRoute[] = [
+  {
+    uriTemplate: 'supabase://tables',
+    name: 'tables',
+    title: 'Tables',
+    description: 'Tables in the public schema',
+    read: (context) => readTables(context, 'public'),
+  },
+  {
+    uriTemplate: 'supabase://views',
+    name: 'views',
+    title: 'Views',
+    description: 'Views in the public schema',
+    read: (context) => readViews(context, 'public'),
+  },
+  {
+    uriTemplate: 'supabase://policies',
+    name: 'policies',
+    title: 'RLS policies',
+    description: 'Row Level Security policies in the public schema',
+    read: (context) => readPolicies(context, 'public'),
+  },
+  {
+    uriTemplate: 'supabase://functions',
+    name: 'functions',
+    tool: 'edge_list_functions',
+    title: 'Edge functions',
+    description: 'Edge functions deployed to the local handler',
+    read: () => readFunctions(),
+  },
+  {
+    uriTemplate: 'supabase://buckets',
+    name: 'buckets',
+    tool: 'storage_list_buckets',
+    title: 'Storage buckets',
+    description: 'Storage buckets and their settings',
+    read: (context) => readBuckets(context),
+  },
+  {
+    uriTemplate: 'supabase://tables/{schema}',
+    name: 'schema-tables',
+    title: 'Tables in a schema',
+    description: 'Tables in the given schema',
+    read: (context, { schema }) => readTables(context, schema),
+  },
+  {
+    uriTemplate: 'supabase://views/{schema}',
+    name: 'schema-views',
+    title: 'Views in a schema',
+    description: 'Views in the given schema',
+    read: (context, { schema }) => readViews(context, schema),
+  },
+  {
+    uriTemplate: 'supabase://policies/{schema}',
+    name: 'schema-policies',
+    title: 'RLS policies in a schema',
+    description: 'Row Level Security policies in the given schema',
+    read: (context, { schema }) => readPolicies(context, schema),
+  },
+  {
+    uriTemplate: 'supabase://table/{schema}/{name}',
+    name: 'table',
+    title: 'Table definition',
+    description: 'Columns, primary key, relationships and RLS policies of a table or view',
+    read: (context, { schema, name }) => readTable(context, schema, name),
+  },
+  {
+    uriTemplate: 'supabase://function/{name}',
+    name: 'function',
+    tool: 'edge_list_functions',
+    title: 'Edge function',
+    description: 'Source and import map of a locally deployed edge function',
+    read: (_context, { name }) => readFunction(name),
+  },
+  {
+    uriTemplate: 'supabase://storage/{bucket}',
+    name: 'bucket',
+    tool: 'storage_list_files',
+    title: 'Storage bucket contents',
+    description: 'Top-level folders and files of a bucket',
+    read: (context, { bucket }) => readBucketPath(context, bucket),
+  },
+  {
+    uriTemplate: 'supabase://storage/{bucket}/{+path}',
+    name: 'bucket-folder',
+    tool: 'storage_list_files',
+    title: 'Storage folder contents',
+    description: 'Folders and files under a path in a bucket',
+    read: (context, { bucket, path }) => readBucketPath(context, bucket, path),
+  },
+];
+
+// Type definitions
+export interface ResourceContext {
+  server: Server;
+  supabaseClient: SupabaseClient;
+  registry: ToolRegistry;
+  safety: SafetyPolicy;
+}
+
+interface ResourceRoute {
+  uriTemplate: string;
+  name: string;
+  tool?: string;
+  title: string;
+  description: string;
+  read: (context: ResourceContext, variables: Record<string, string>) => Promise<any>;
+}
+
+// Subsets of the postgres-meta response shapes
+interface PgMetaColumn {
+  name: string;
+  data_type: string;
+  format: string;
+  is_nullable: boolean;
+  is_identity: boolean;
+  is_unique: boolean;
+  default_value: any;
+  enums: string[];
+  comment: string | null;
+}
+
+interface PgMetaTable {
+  schema: string;
+  name: string;
+  rls_enabled: boolean;
+  live_rows_estimate?: number;
+  comment: string | null;
+  columns?: PgMetaColumn[];
+  primary_keys: { name: string }[];
+  relationships: {
+    constraint_name: string;
+    source_schema: string;
+    source_table_name: string;
+    source_column_name: string;
+    target_table_schema: string;
+    target_table_name: string;
+    target_column_name: string;
+  }[];
+}
+
+interface PgMetaView {
+  schema: string;
+  name: string;
+  is_updatable: boolean;
+  comment: string | null;
+  columns?: PgMetaColumn[];
+}
+
+interface PgMetaPolicy {
+  schema: string;
+  table: string;
+  name: string;
+  action: string;
+  roles: string[];
+  command: string;
+  definition: string | null;
+  check: string | null;
+}
@@ -0,0 +1,188 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { RegisteredTool, ToolSafety } from './tool-registry.js';
+
+/**
+ * Safety Policy
+ *
+ * Server-wide guard rails evaluated before any handler runs. The mode
+ * limits tools by their registered safety level, while allow/deny lists
+ * narrow tools and tables further. Tools that are not allowed are also
+ * hidden from ListTools, so assistants never see them.
+ */
+export class SafetyPolicy {
+  constructor(private config: SafetyConfig) {}
+
+  /**
+   * Current configuration (for diagnostics)
+   */
+  getConfig(): SafetyConfig {
+    return this.config;
+  }
+
+  /**
+   * Whether a tool may be listed and called at all
+   */
+  isToolAllowed(registration: RegisteredTool): boolean {
+    return this.toolDenialReason(registration) === null;
+  }
+
+  /**
+   * Reject a call that the policy does not permit
+   */
+  assertCallAllowed(registration: RegisteredTool, args: Record<string, any>): void {
+    const toolReason = this.toolDenialReason(registration);
+    if (toolReason) {
+      throw new McpError(ErrorCode.InvalidRequest, `Tool '${registration.tool.name}' is disabled: ${toolReason}`);
+    }
+
+    for (const table of extractTables(args)) {
+      const tableReason = this.tableDenialReason(table);
+      if (tableReason) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Tool '${registration.tool.name}' cannot access table '${table.schema}.${table.name}': ${tableReason}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Whether a table may be exposed, e.g. as a resource
+   */
+  isTableAllowed(schema: string, name: string): boolean {
+    return this.tableDenialReason({ schema, name }) === null;
+  }
+
+  private toolDenialReason(registration: RegisteredTool): string | null {
+    const { name } = registration.tool;
+
+    if (!MODE_LEVELS[this.config.mode].includes(registration.safety)) {
+      return `server runs in ${this.config.mode} mode and this tool is ${registration.safety}`;
+    }
+    if (this.config.deniedTools.some((pattern) => pattern.test(name))) {
+      return 'listed in MCP_DENIED_TOOLS';
+    }
+    if (this.config.allowedTools.length > 0 && !this.config.allowedTools.some((pattern) => pattern.test(name))) {
+      return 'not listed in MCP_ALLOWED_TOOLS';
+    }
+    return null;
+  }
+
+  private tableDenialReason(table: TableReference): string | null {
+    const candidates = [table.name, `${table.schema}.${table.name}`];
+    const matches = (patterns: RegExp[]) =>
+      patterns.some((pattern) => candidates.some((candidate) => pattern.test(candidate)));
+
+    if (matches(this.config.deniedTables)) {
+      return 'listed in MCP_DENIED_TABLES';
+    }
+    if (this.config.allowedTables.length > 0 && !matches(this.config.allowedTables)) {
+      return 'not listed in MCP_ALLOWED_TABLES';
+    }
+    return null;
+  }
+}
+
+/**
+ * Load the safety policy from environment variables
+ */
+export function loadSafetyPolicy(): SafetyPolicy {
+  const mode = (process.env.MCP_SAFETY_MODE || 'full').toLowerCase() as SafetyMode;
+  if (!(mode in MODE_LEVELS)) {
+    throw new Error(`Unknown MCP_SAFETY_MODE '${mode}' (expected one of: ${Object.keys(MODE_LEVELS).join(', ')})`);
+  }
+
+  return new SafetyPolicy({
+    mode,
+    allowedTools: parsePatterns(process.env.MCP_ALLOWED_TOOLS),
+    deniedTools: parsePatterns(process.env.MCP_DENIED_TOOLS),
+    allowedTables: parsePatterns(process.env.MCP_ALLOWED_TABLES),
+    deniedTables: parsePatterns(process.env.MCP_DENIED_TABLES),
+  });
+}
+
+const MODE_LEVELS: Record<SafetyMode, ToolSafety[]> = {
+  'full': ['read', 'write', 'destructive'],
+  'no-destructive': ['read', 'write'],
+  'read-only': ['read'],
+};
+
+// Arguments that name a table directly, and arguments holding SQL text
+const TABLE_ARGUMENTS = ['table', 'table_name'];
+const SQL_ARGUMENTS = ['query', 'test_query'];
+
+// Table positions in SQL text; deliberately broad, since a false match only
+// makes the policy stricter
+const IDENTIFIER = '((?:"[^"]+"|[a-zA-Z_][\\w$]*)(?:\\.(?:"[^"]+"|[a-zA-Z_][\\w$]*))?)';
+const SQL_TABLE_PATTERNS = [
+  new RegExp(`\\b(?:from|join|into|update|table|truncate)\\s+(?:only\\s+|if\\s+(?:not\\s+)?exists\\s+)?${IDENTIFIER}`, 'gi'),
+  new RegExp(`\\b(?:policy|index|trigger)\\s+(?:"[^"]+"|[\\w$]+)\\s+on\\s+${IDENTIFIER}`, 'gi'),
+  new RegExp(`\\bgrant\\s+[\\w\\s,]+?\\s+on\\s+(?:table\\s+)?${IDENTIFIER}`, 'gi'),
+];
+
+/**
+ * Comma-separated names with `*` wildcards, e.g. "db_*,schema_get_tables"
+ */
+function parsePatterns(value: string | undefined): RegExp[] {
+  if (!value) {
+    return [];
+  }
+
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const escaped = entry.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+      return new RegExp(`^${escaped}$`, 'i');
+    });
+}
+
+/**
+ * Collect every table a call touches, from table arguments and SQL text
+ */
+function extractTables(args: Record<string, any>): TableReference[] {
+  const tables: TableReference[] = [];
+  const defaultSchema = typeof args.schema === 'string' ? args.schema : 'public';
+
+  for (const key of TABLE_ARGUMENTS) {
+    if (typeof args[key] === 'string' && args[key]) {
+      tables.push(parseTableName(args[key], defaultSchema));
+    }
+  }
+
+  for (const key of SQL_ARGUMENTS) {
+    if (typeof args[key] === 'string') {
+      for (const pattern of SQL_TABLE_PATTERNS) {
+        for (const match of args[key].matchAll(pattern)) {
+          tables.push(parseTableName(match[1], 'public'));
+        }
+      }
+    }
+  }
+
+  return tables;
+}
+
+function parseTableName(value: string, defaultSchema: string): TableReference {
+  const parts = value.split('.').map((part) => part.replace(/"/g, '').trim());
+  return parts.length > 1
+    ? { schema: parts[0], name: parts[1] }
+    : { schema: defaultSchema, name: parts[0] };
+}
+
+// Type definitions
+export type SafetyMode = 'full' | 'no-destructive' | 'read-only';
+
+export interface SafetyConfig {
+  mode: SafetyMode;
+  allowedTools: RegExp[];
+  deniedTools: RegExp[];
+  allowedTables: RegExp[];
+  deniedTables: RegExp[];
+}
+
+interface TableReference {
+  schema: string;
+  name: string;
+}
@@ -0,0 +1,104 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  CallToolResult,
+  ErrorCode,
+  ListToolsRequestSchema,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { SupabaseClient } from './supabase-client.js';
+import { ToolRegistry } from './tool-registry.js';
+import { SafetyPolicy } from './safety.js';
+import { createAuditEntry, getAuditLog } from './audit-log.js';
+import { assertValidArguments } from './validation.js';
+import { registerResourceHandlers } from './resources.js';
+import { registerPromptHandlers } from './prompts.js';
+
+/**
+ * Create an MCP server exposing the registry's tools through the given client.
+ *
+ * Stdio mode creates exactly one server; HTTP mode creates one per session
+ * so each connected client keeps its own auth state. The safety policy is
+ * applied to both listing and calls, and to the tables and tools behind resources.
+ */
+export function createServer(
+  supabaseClient: SupabaseClient,
+  registry: ToolRegistry,
+  safety: SafetyPolicy
+): Server {
+  const server = new Server(
+    {
+      name: process.env.MCP_SERVER_NAME || 'supabase-mcp-server',
+      version: process.env.MCP_SERVER_VERSION || '1.0.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
+    }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: registry.listTools((registration) => safety.isToolAllowed(registration)),
+    };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args = {} } = request.params;
+    const registration = registry.get(name);
+    const startedAt = Date.now();
+
+    // Record every invocation, including rejected and failed ones
+    const audit = (outcome: { result?: CallToolResult; error?: unknown }) => {
+      const profile = typeof args.profile === 'string' && supabaseClient.hasProfile(args.profile)
+        ? supabaseClient.forProfile(args.profile)
+        : supabaseClient;
+
+      return getAuditLog().record(
+        createAuditEntry({
+          tool: name,
+          category: registration?.category ?? null,
+          safety: registration?.safety ?? null,
+          profile: profile.getProfileName(),
+          client: server.getClientVersion()?.name ?? null,
+          authUser: profile.getCurrentUser()?.email ?? null,
+          args,
+          startedAt,
+          ...outcome,
+        }),
+        profile
+      );
+    };
+
+    try {
+      let toolArgs = args;
+      if (registration) {
+        safety.assertCallAllowed(registration, args);
+        toolArgs = assertValidArguments(registry.describe(registration), args);
+      }
+
+      const result = await registry.call(supabaseClient, name, toolArgs);
+      await audit({ result });
+      return result;
+    } catch (error) {
+      await audit({ error });
+
+      if (error instanceof McpError) {
+        throw error;
+      }
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  });
+
+  registerResourceHandlers(server, supabaseClient, registry, safety);
+  registerPromptHandlers(server, supabaseClient, registry, safety);
+
+  return server;
+}
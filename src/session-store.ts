@@ -0,0 +1,316 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import path from 'path';
+import os from 'os';
+import { SupportedStorage } from '@supabase/supabase-js';
+
+/**
+ * Session Store
+ *
+ * Named auth sessions per profile. supabase-js reads and writes the
+ * current session through a storage adapter, so signing in, token
+ * refreshes and signing out all land here without extra wiring. With
+ * MCP_SESSION_STORE_KEY set, sessions are persisted to a file encrypted
+ * with AES-256-GCM and restored (and refreshed) after a restart; otherwise
+ * they only live as long as the process.
+ */
+export class SessionStore {
+  private data: SessionStoreData = { profiles: {} };
+  private key: Buffer | null = null;
+  private salt: Buffer | null = null;
+
+  constructor(private config: SessionStoreConfig) {
+    if (config.passphrase) {
+      this.load();
+    }
+  }
+
+  /**
+   * Whether sessions survive a restart
+   */
+  isPersistent(): boolean {
+    return this.key !== null;
+  }
+
+  /**
+   * Whether the store belongs to a single HTTP client instead of the process
+   */
+  isPrivate(): boolean {
+    return this.config.scope === 'client';
+  }
+
+  /**
+   * Path of the encrypted file
+   */
+  getFilePath(): string {
+    return this.config.filePath;
+  }
+
+  /**
+   * Saved sessions of a profile, without their tokens
+   */
+  list(profile: string): SessionSummary[] {
+    const entry = this.data.profiles[profile];
+    if (!entry) {
+      return [];
+    }
+    return Object.entries(entry.sessions).map(([name, stored]) => ({
+      name,
+      user_id: stored.session.user?.id ?? null,
+      email: stored.session.user?.email ?? null,
+      expires_at: stored.session.expires_at ? new Date(stored.session.expires_at * 1000).toISOString() : null,
+      saved_at: stored.saved_at,
+    }));
+  }
+
+  /**
+   * A saved session, or undefined
+   */
+  get(profile: string, name: string): Record<string, any> | undefined {
+    return this.data.profiles[profile]?.sessions[name]?.session;
+  }
+
+  /**
+   * Name of the session restored for a profile on startup
+   */
+  getActive(profile: string): string | null {
+    return this.data.profiles[profile]?.active ?? null;
+  }
+
+  save(profile: string, name: string, session: Record<string, any>): void {
+    const entry = this.profileEntry(profile);
+    entry.sessions[name] = { session, saved_at: new Date().toISOString() };
+    entry.active = name;
+    this.flush();
+  }
+
+  remove(profile: string, name: string): void {
+    const entry = this.profileEntry(profile);
+    delete entry.sessions[name];
+    if (entry.active === name) {
+      entry.active = null;
+    }
+    this.flush();
+  }
+
+  /**
+   * supabase-js storage adapter for one profile's client
+   */
+  storage(profile: string): SessionStorage {
+    return new SessionStorage(this, profile);
+  }
+
+  private profileEntry(profile: string): ProfileSessions {
+    if (!this.data.profiles[profile]) {
+      this.data.profiles[profile] = { active: null, sessions: {} };
+    }
+    return this.data.profiles[profile];
+  }
+
+  // Read the file; a wrong key disables persistence instead of overwriting it
+  private load(): void {
+    const passphrase = this.config.passphrase!;
+
+    if (!existsSync(this.config.filePath)) {
+      this.salt = randomBytes(16);
+      this.key = scryptSync(passphrase, this.salt, 32);
+      return;
+    }
+
+    try {
+      const file: EncryptedFile = JSON.parse(readFileSync(this.config.filePath, 'utf-8'));
+      const salt = Buffer.from(file.salt, 'base64');
+      const key = scryptSync(passphrase, salt, 32);
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const plaintext = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+
+      this.data = JSON.parse(plaintext.toString('utf-8'));
+      this.salt = salt;
+      this.key = key;
+    } catch (error) {
+      console.error(
+        `Cannot read session store ${this.config.filePath} (wrong MCP_SESSION_STORE_KEY?); sessions will not be persisted:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  // Rewrite the whole file atomically, readable by the owner only
+  private flush(): void {
+    if (!this.key || !this.salt) {
+      return;
+    }
+
+    try {
+      const iv = randomBytes(12);
+      const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+      const data = Buffer.concat([cipher.update(JSON.stringify(this.data), 'utf-8'), cipher.final()]);
+      const file: EncryptedFile = {
+        version: 1,
+        salt: this.salt.toString('base64'),
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64'),
+      };
+
+      mkdirSync(path.dirname(this.config.filePath), { recursive: true, mode: 0o700 });
+      const temporary = `${this.config.filePath}.tmp`;
+      writeFileSync(temporary, JSON.stringify(file), { mode: 0o600 });
+      renameSync(temporary, this.config.filePath);
+    } catch (error) {
+      console.error('Failed to write session store:', error);
+    }
+  }
+}
+
+/**
+ * Storage adapter handed to supabase-js. It tracks which named session its
+ * client holds, so a token refresh is saved under the same name even when
+ * another client switched the profile's active session in the meantime.
+ */
+export class SessionStorage implements SupportedStorage {
+  private current: string | null;
+  private nextName: string | null = null;
+  // PKCE verifiers and other auxiliary keys are not worth persisting
+  private scratch = new Map<string, string>();
+
+  constructor(private store: SessionStore, private profile: string) {
+    this.current = store.getActive(profile);
+  }
+
+  /**
+   * Name of the session this client holds
+   */
+  getCurrentName(): string | null {
+    return this.current;
+  }
+
+  /**
+   * Save the next session the client signs in with under this name
+   * (instead of the user's email)
+   */
+  nameNextSession(name: string | null): void {
+    this.nextName = name;
+  }
+
+  /**
+   * Point the adapter at a saved session before handing its tokens to the
+   * client; returns the previous name so a failed switch can be undone
+   */
+  select(name: string | null): string | null {
+    const previous = this.current;
+    this.current = name;
+    return previous;
+  }
+
+  getItem(key: string): string | null {
+    if (key !== SESSION_STORAGE_KEY) {
+      return this.scratch.get(key) ?? null;
+    }
+    const session = this.current ? this.store.get(this.profile, this.current) : undefined;
+    return session ? JSON.stringify(session) : null;
+  }
+
+  setItem(key: string, value: string): void {
+    if (key !== SESSION_STORAGE_KEY) {
+      this.scratch.set(key, value);
+      return;
+    }
+
+    const session = JSON.parse(value);
+    const held = this.current ? this.store.get(this.profile, this.current) : undefined;
+    // A refresh keeps the name; a different user signing in gets a new one
+    const sameUser = held && held.user?.id === session.user?.id;
+    const name = this.nextName || (sameUser ? this.current! : session.user?.email || session.user?.id || 'default');
+
+    this.nextName = null;
+    this.current = name;
+    this.store.save(this.profile, name, session);
+  }
+
+  removeItem(key: string): void {
+    if (key !== SESSION_STORAGE_KEY) {
+      this.scratch.delete(key);
+      return;
+    }
+    if (this.current) {
+      this.store.remove(this.profile, this.current);
+      this.current = null;
+    }
+  }
+}
+
+/**
+ * Load session store settings from environment variables
+ */
+export function loadSessionStoreConfig(): SessionStoreConfig {
+  return {
+    filePath: path.resolve(
+      process.env.MCP_SESSION_STORE_FILE || path.join(os.homedir(), '.supabase-mcp', 'sessions.enc')
+    ),
+    passphrase: process.env.MCP_SESSION_STORE_KEY || undefined,
+    scope: 'process',
+  };
+}
+
+/**
+ * Session store of one HTTP client. It lives in memory only, so other
+ * clients can neither see its sessions nor start signed in to them.
+ */
+export function createPrivateSessionStore(): SessionStore {
+  return new SessionStore({ ...loadSessionStoreConfig(), passphrase: undefined, scope: 'client' });
+}
+
+let sessionStore: SessionStore | null = null;
+
+/**
+ * Process-wide session store, created on first use so .env values are
+ * already loaded
+ */
+export function getSessionStore(): SessionStore {
+  if (!sessionStore) {
+    sessionStore = new SessionStore(loadSessionStoreConfig());
+  }
+  return sessionStore;
+}
+
+// supabase-js storage key of the session itself
+export const SESSION_STORAGE_KEY = 'supabase-mcp-session';
+
+// Type definitions
+export interface SessionStoreConfig {
+  filePath: string;
+  passphrase?: string;
+  scope: 'process' | 'client';
+}
+
+export interface SessionSummary {
+  name: string;
+  user_id: string | null;
+  email: string | null;
+  expires_at: string | null;
+  saved_at: string;
+}
+
+interface StoredSession {
+  session: Record<string, any>;
+  saved_at: string;
+}
+
+interface ProfileSessions {
+  active: string | null;
+  sessions: Record<string, StoredSession>;
+}
+
+interface SessionStoreData {
+  profiles: Record<string, ProfileSessions>;
+}
+
+interface EncryptedFile {
+  version: number;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
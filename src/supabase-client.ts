@@ -1,111 +1,268 @@
 import { createClient, SupabaseClient as SupabaseJS, User, Session } from '@supabase/supabase-js';
+import { loadProfiles, ProfileSet, SupabaseProfile } from './profiles.js';
+import { getPostgresConnection, PostgresConnection } from './postgres.js';
+import { getHttpClient } from './http-client.js';
+import { JwtClaims } from './jwt.js';
+import { getSessionStore, SESSION_STORAGE_KEY, SessionStorage, SessionStore, SessionSummary } from './session-store.js';
 
 export interface SupabaseConfig {
   url: string;
   anonKey: string;
   serviceRoleKey: string;
+  databaseUrl?: string;
+  jwtSecret?: string;
+}
+
+// Identity a client view acts as (from the as_user / as_role tool arguments)
+export interface Impersonation {
+  token: string;
+  role: string;
+  claims: JwtClaims;
+  source: 'token' | 'user_id' | 'email' | 'role';
+}
+
+// Clients and auth state of one profile, created on first use
+interface ProfileConnection {
+  profile: SupabaseProfile;
+  client: SupabaseJS;
+  adminClient: SupabaseJS;
+  postgres: PostgresConnection | null;
+  sessions: SessionStorage;
+  currentUser: User | null;
+  currentSession: Session | null;
+}
+
+// State shared between a client and its profile-pinned views
+interface ProfileState {
+  profiles: ProfileSet['profiles'];
+  activeProfile: string;
+  connections: Map<string, ProfileConnection>;
+  sessionStore: SessionStore;
 }
 
 export class SupabaseClient {
-  private client: SupabaseJS;
-  private adminClient: SupabaseJS;
-  private config: SupabaseConfig;
-  private currentUser: User | null = null;
-  private currentSession: Session | null = null;
-
-  constructor() {
-    this.config = this.loadConfig();
-    
-    // Regular client for user operations
-    this.client = createClient(this.config.url, this.config.anonKey);
-    
-    // Admin client for service operations
-    this.adminClient = createClient(this.config.url, this.config.serviceRoleKey);
-    
+  private state: ProfileState;
+  private pinnedProfile: string | null;
+  private impersonation: Impersonation | null;
+  private impersonatedClient: SupabaseJS | null = null;
+
+  constructor(state?: ProfileState, pinnedProfile?: string, impersonation?: Impersonation) {
+    if (state) {
+      this.state = state;
+    } else {
+      const { profiles, defaultProfile } = loadProfiles();
+      this.state = { profiles, activeProfile: defaultProfile, connections: new Map(), sessionStore: getSessionStore() };
+    }
+    this.pinnedProfile = pinnedProfile || null;
+    this.impersonation = impersonation || null;
+  }
+
+  // Client whose login sessions live in the given store instead of the
+  // process-wide one
+  static withSessionStore(sessionStore: SessionStore): SupabaseClient {
+    const { profiles, defaultProfile } = loadProfiles();
+    return new SupabaseClient({ profiles, activeProfile: defaultProfile, connections: new Map(), sessionStore });
+  }
+
+  // Get (or lazily create) the connection of the profile this client targets
+  private connection(): ProfileConnection {
+    const name = this.getProfileName();
+    const existing = this.state.connections.get(name);
+    if (existing) {
+      return existing;
+    }
+
+    const profile = this.state.profiles.get(name)!;
+    // Timeouts, retries and circuit breaking for every request
+    const options = { global: { fetch: getHttpClient().fetch } };
+    // Named sessions, persisted when MCP_SESSION_STORE_KEY is set
+    const sessions = this.state.sessionStore.storage(profile.name);
+    const connection: ProfileConnection = {
+      profile,
+      // Regular client for user operations
+      client: createClient(profile.url, profile.anonKey, {
+        ...options,
+        auth: { storage: sessions, storageKey: SESSION_STORAGE_KEY },
+      }),
+      // Admin client for service operations
+      adminClient: createClient(profile.url, profile.serviceRoleKey, options),
+      // Direct database connection, only when the profile has a DSN
+      postgres: profile.databaseUrl ? getPostgresConnection(profile.databaseUrl) : null,
+      sessions,
+      currentUser: null,
+      currentSession: null,
+    };
+
     // Listen for auth changes
-    this.client.auth.onAuthStateChange((event, session) => {
-      this.currentSession = session;
-      this.currentUser = session?.user || null;
+    connection.client.auth.onAuthStateChange((event, session) => {
+      connection.currentSession = session;
+      connection.currentUser = session?.user || null;
     });
+
+    this.state.connections.set(name, connection);
+    return connection;
   }
 
-  private loadConfig(): SupabaseConfig {
-    const url = process.env.SUPABASE_URL;
-    const anonKey = process.env.SUPABASE_ANON_KEY;
-    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  // Name of the profile this client targets
+  getProfileName(): string {
+    return this.pinnedProfile || this.state.activeProfile;
+  }
 
-    if (!url || !anonKey || !serviceRoleKey) {
-      throw new Error('Missing required Supabase environment variables');
-    }
+  // List configured profiles
+  listProfiles(): Array<{
+    name: string;
+    url: string;
+    description: string | null;
+    active: boolean;
+    authenticated: boolean;
+  }> {
+    return Array.from(this.state.profiles.values()).map((profile) => ({
+      name: profile.name,
+      url: profile.url,
+      description: profile.description || null,
+      active: profile.name === this.state.activeProfile,
+      authenticated: this.state.connections.get(profile.name)?.currentUser != null,
+    }));
+  }
+
+  // Check if a profile is configured
+  hasProfile(name: string): boolean {
+    return this.state.profiles.has(name);
+  }
+
+  // Make another profile the active one for subsequent calls
+  switchProfile(name: string): void {
+    this.assertProfile(name);
+    this.state.activeProfile = name;
+  }
+
+  // Get a client pinned to a profile without changing the active one
+  forProfile(name: string): SupabaseClient {
+    this.assertProfile(name);
+    return new SupabaseClient(this.state, name);
+  }
 
-    return { url, anonKey, serviceRoleKey };
+  // Get a client that acts as another identity; its regular and admin
+  // clients both send the identity's token, so RLS applies to every call
+  actingAs(impersonation: Impersonation): SupabaseClient {
+    return new SupabaseClient(this.state, this.getProfileName(), impersonation);
+  }
+
+  // Get the identity this client acts as (null for the configured keys)
+  getImpersonation(): Impersonation | null {
+    return this.impersonation;
+  }
+
+  private assertProfile(name: string): void {
+    if (!this.state.profiles.has(name)) {
+      throw new Error(`Unknown profile '${name}'. Available profiles: ${Array.from(this.state.profiles.keys()).join(', ')}`);
+    }
   }
 
   // Get the regular client (for user operations)
   getClient(): SupabaseJS {
-    return this.client;
+    return this.impersonation ? this.getImpersonatedClient() : this.connection().client;
   }
 
   // Get the admin client (for service operations)
   getAdminClient(): SupabaseJS {
-    return this.adminClient;
+    return this.impersonation ? this.getImpersonatedClient() : this.connection().adminClient;
+  }
+
+  // Get the direct Postgres connection (null when no DATABASE_URL is configured)
+  getPostgres(): PostgresConnection | null {
+    const postgres = this.connection().postgres;
+    if (postgres && this.impersonation) {
+      return postgres.withAuthContext({ role: this.impersonation.role, claims: this.impersonation.claims });
+    }
+    return postgres;
+  }
+
+  // Short-lived client sending the impersonated identity's token
+  private getImpersonatedClient(): SupabaseJS {
+    if (!this.impersonatedClient) {
+      const { url, anonKey } = this.getConfig();
+      const token = this.impersonation!.token;
+      this.impersonatedClient = createClient(url, anonKey, {
+        global: { fetch: getHttpClient().fetch },
+        accessToken: async () => token,
+      });
+    }
+    return this.impersonatedClient;
   }
 
   // Get config for direct API calls
   getConfig(): SupabaseConfig {
-    return this.config;
+    return this.state.profiles.get(this.getProfileName())!;
   }
 
   // Get current user
   getCurrentUser(): User | null {
-    return this.currentUser;
+    return this.connection().currentUser;
   }
 
   // Get current session
   getCurrentSession(): Session | null {
-    return this.currentSession;
+    return this.connection().currentSession;
   }
 
-  // Check if user is authenticated
-  isAuthenticated(): boolean {
-    return this.currentUser !== null;
-  }
-
-  // Test connection
-  async testConnection(): Promise<{ connected: boolean; message: string }> {
-    try {
-      // Test with a simple health check endpoint
-      const response = await fetch(`${this.config.url}/rest/v1/`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${this.config.serviceRoleKey}`,
-          'apikey': this.config.serviceRoleKey,
-        },
-      });
+  // Get the store holding this client's login sessions
+  getSessionStore(): SessionStore {
+    return this.state.sessionStore;
+  }
+
+  // List the saved sessions of this profile
+  listSessions(): Array<SessionSummary & { active: boolean }> {
+    const current = this.connection().sessions.getCurrentName();
+    return this.state.sessionStore
+      .list(this.getProfileName())
+      .map((session) => ({ ...session, active: session.name === current }));
+  }
+
+  // Save the session of the next sign-in under this name (default: the email)
+  nameNextSession(name: string | null): void {
+    this.connection().sessions.nameNextSession(name);
+  }
+
+  // Switch to a saved session; expired access tokens are refreshed
+  async useSession(name: string): Promise<Session> {
+    const connection = this.connection();
+    const stored = this.state.sessionStore.get(this.getProfileName(), name);
+    if (!stored) {
+      throw new Error(`No saved session '${name}'. Use auth_list_sessions to see saved sessions`);
+    }
 
-      if (response.ok) {
-        return { connected: true, message: 'Connection successful' };
-      } else {
-        return { connected: false, message: `HTTP ${response.status}: ${response.statusText}` };
-      }
-    } catch (error) {
-      return { 
-        connected: false, 
-        message: error instanceof Error ? error.message : 'Unknown error' 
-      };
+    const previous = connection.sessions.select(name);
+    const { data, error } = await connection.client.auth.setSession({
+      access_token: stored.access_token,
+      refresh_token: stored.refresh_token,
+    });
+    if (error || !data.session) {
+      connection.sessions.select(previous);
+      throw new Error(`Cannot restore session '${name}': ${error?.message || 'no session returned'}`);
     }
+    return data.session;
+  }
+
+  // Check if user is authenticated
+  isAuthenticated(): boolean {
+    return this.getCurrentUser() !== null;
   }
 
   // Get connection status
   getConnectionStatus(): {
+    profile: string;
     url: string;
+    postgres: boolean;
     authenticated: boolean;
     user: string | null;
   } {
     return {
-      url: this.config.url,
+      profile: this.getProfileName(),
+      url: this.getConfig().url,
+      postgres: this.getPostgres() !== null,
       authenticated: this.isAuthenticated(),
-      user: this.currentUser?.email || null,
+      user: this.getCurrentUser()?.email || null,
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,135 @@
+import { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Structured Tool Output
+ *
+ * Every tool returns the same envelope as `structuredContent`:
+ * `{ success, data, error, diagnostics }`. Handlers keep producing their
+ * JSON text, which stays in `content` as the fallback for clients that
+ * predate structured output; the envelope is derived from it here.
+ */
+export function toStructuredResult(result: CallToolResult): CallToolResult {
+  if (result.structuredContent) {
+    return result;
+  }
+
+  const envelope = buildEnvelope(result);
+  return {
+    ...result,
+    structuredContent: envelope as unknown as Record<string, unknown>,
+    isError: result.isError || !envelope.success,
+  };
+}
+
+/**
+ * Output schema shared by all tools, optionally narrowing `data`
+ */
+export function envelopeOutputSchema(dataSchema?: Record<string, unknown>): NonNullable<Tool['outputSchema']> {
+  return {
+    type: 'object',
+    properties: {
+      success: {
+        type: 'boolean',
+        description: 'Whether the operation succeeded',
+      },
+      data: dataSchema || {
+        type: ['object', 'null'],
+        description: 'Operation result (tool specific)',
+        additionalProperties: true,
+      },
+      error: {
+        type: ['string', 'null'],
+        description: 'Error message when success is false',
+      },
+      diagnostics: {
+        type: ['object', 'null'],
+        description: 'Notes, warnings, suggestions and troubleshooting hints',
+        additionalProperties: true,
+      },
+    },
+    required: ['success', 'data', 'error', 'diagnostics'],
+  };
+}
+
+/**
+ * Split a handler's JSON payload into the envelope fields
+ */
+function buildEnvelope(result: CallToolResult): ToolEnvelope {
+  const text = result.content?.find((item) => item.type === 'text');
+  const rawText = text && text.type === 'text' ? text.text : '';
+
+  let payload: Record<string, any>;
+  try {
+    const parsed = JSON.parse(rawText);
+    payload = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : { result: parsed };
+  } catch {
+    payload = rawText ? { text: rawText } : {};
+  }
+
+  const success = !result.isError && payload.success !== false;
+  const data: Record<string, any> = {};
+  const diagnostics: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(payload)) {
+    if (key === 'success' || key === 'error') {
+      continue;
+    }
+    if (DIAGNOSTIC_KEYS.has(key)) {
+      diagnostics[key] = value;
+    } else {
+      data[key] = value;
+    }
+  }
+
+  return {
+    success,
+    data: Object.keys(data).length > 0 ? data : null,
+    error: success ? null : errorMessage(payload.error) || 'Operation failed',
+    diagnostics: Object.keys(diagnostics).length > 0 ? diagnostics : null,
+  };
+}
+
+function errorMessage(error: unknown): string | null {
+  if (!error) {
+    return null;
+  }
+  if (typeof error === 'string') {
+    return error;
+  }
+  if (typeof error === 'object' && 'message' in error && typeof (error as any).message === 'string') {
+    return (error as any).message;
+  }
+  return JSON.stringify(error);
+}
+
+// Payload keys that describe how to interpret or fix a result rather than the result itself
+const DIAGNOSTIC_KEYS = new Set([
+  'note',
+  'notes',
+  'warning',
+  'warnings',
+  'suggestion',
+  'suggestions',
+  'troubleshooting',
+  'solutions',
+  'debugging_tips',
+  'safety_note',
+  'performance_note',
+  'rollback_planning',
+  'alternative_approach',
+  'alternative_options',
+  'deployment_help',
+  'original_error',
+  'original_sql_error',
+  'fallback_error',
+  'local_error',
+  'supabase_error',
+]);
+
+// Type definitions
+export interface ToolEnvelope {
+  success: boolean;
+  data: Record<string, any> | null;
+  error: string | null;
+  diagnostics: Record<string, any> | null;
+}
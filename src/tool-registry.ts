@@ -0,0 +1,269 @@
+import { Tool, CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { SupabaseClient } from './supabase-client.js';
+import { envelopeOutputSchema, toStructuredResult } from './tool-output.js';
+import { resolveImpersonation } from './impersonation.js';
+
+/**
+ * Tool Registry
+ *
+ * Single source of truth for every tool the server exposes. Tool modules
+ * register their definitions, handler, category and safety level here;
+ * listing, dispatch, filtering and documentation are all derived from it.
+ * Dispatch is by exact name, so a new module can never be shadowed by a
+ * name prefix of an existing one.
+ */
+export class ToolRegistry {
+  private tools: Map<string, RegisteredTool> = new Map();
+
+  /**
+   * Register a single tool
+   */
+  register(registration: RegisteredTool): void {
+    const { name } = registration.tool;
+
+    if (this.tools.has(name)) {
+      const existing = this.tools.get(name)!;
+      throw new Error(`Tool '${name}' is already registered by the ${existing.category} module`);
+    }
+
+    this.tools.set(name, registration);
+  }
+
+  /**
+   * Register every tool of a module sharing one handler
+   */
+  registerModule(module: ToolModule): void {
+    const names = new Set(module.tools.map((tool) => tool.name));
+
+    for (const name of Object.keys(module.safety)) {
+      if (!names.has(name)) {
+        throw new Error(`Safety level declared for unknown ${module.category} tool '${name}'`);
+      }
+    }
+
+    for (const tool of module.tools) {
+      const safety = module.safety[tool.name];
+      if (!safety) {
+        throw new Error(`Missing safety level for ${module.category} tool '${tool.name}'`);
+      }
+
+      this.register({
+        tool,
+        category: module.category,
+        safety,
+        handler: module.handler,
+      });
+    }
+  }
+
+  /**
+   * Look up a registered tool by exact name
+   */
+  get(name: string): RegisteredTool | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * All registrations, optionally filtered, in registration order
+   */
+  list(filter?: (registration: RegisteredTool) => boolean): RegisteredTool[] {
+    const registrations = Array.from(this.tools.values());
+    return filter ? registrations.filter(filter) : registrations;
+  }
+
+  /**
+   * Tool definitions for ListTools, with safety exposed as MCP annotations
+   */
+  listTools(filter?: (registration: RegisteredTool) => boolean): Tool[] {
+    return this.list(filter).map((registration) => this.describe(registration));
+  }
+
+  /**
+   * The tool definition as clients see it, including common arguments
+   */
+  describe(registration: RegisteredTool): Tool {
+    return {
+      ...registration.tool,
+      inputSchema: withImpersonationArguments(registration, withProfileArgument(registration.tool.inputSchema)),
+      outputSchema: registration.tool.outputSchema || envelopeOutputSchema(),
+      annotations: {
+        ...registration.tool.annotations,
+        readOnlyHint: registration.safety === 'read',
+        destructiveHint: registration.safety === 'destructive',
+      },
+    };
+  }
+
+  /**
+   * Dispatch a tool call to its registered handler and wrap the result in
+   * the structured output envelope
+   */
+  async call(supabaseClient: SupabaseClient, name: string, args: any): Promise<CallToolResult> {
+    const registration = this.tools.get(name);
+    if (!registration) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+
+    const profile = resolveProfile(registration, supabaseClient, args ?? {});
+    const { client, args: toolArgs } = await resolveIdentity(registration, profile.client, profile.args);
+    return toStructuredResult(await registration.handler(client, name, toolArgs));
+  }
+
+  /**
+   * Render a Markdown reference of all tools grouped by category
+   */
+  toMarkdown(): string {
+    const lines: string[] = ['# Tool Reference', ''];
+    const byCategory = new Map<ToolCategory, RegisteredTool[]>();
+
+    for (const registration of this.tools.values()) {
+      const group = byCategory.get(registration.category) || [];
+      group.push(registration);
+      byCategory.set(registration.category, group);
+    }
+
+    for (const [category, registrations] of byCategory) {
+      const count = `${registrations.length} ${registrations.length === 1 ? 'tool' : 'tools'}`;
+      lines.push(`## ${CATEGORY_TITLES[category]} (${count})`, '');
+      lines.push('| Tool | Safety | Description |', '| --- | --- | --- |');
+      for (const { tool, safety } of registrations) {
+        lines.push(`| \`${tool.name}\` | ${safety} | ${tool.description || ''} |`);
+      }
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+}
+
+/**
+ * Every tool accepts an optional `profile` argument targeting another
+ * connection profile for that single call, unless it defines its own.
+ */
+const PROFILE_ARGUMENT = {
+  type: 'string',
+  description: 'Connection profile to run this call against (default: the active profile)',
+};
+
+function withProfileArgument(inputSchema: Tool['inputSchema']): Tool['inputSchema'] {
+  if (inputSchema.properties?.profile) {
+    return inputSchema;
+  }
+  return {
+    ...inputSchema,
+    properties: { ...inputSchema.properties, profile: PROFILE_ARGUMENT },
+  };
+}
+
+function resolveProfile(
+  registration: RegisteredTool,
+  supabaseClient: SupabaseClient,
+  args: Record<string, any>
+): { client: SupabaseClient; args: Record<string, any> } {
+  if (registration.tool.inputSchema.properties?.profile || args.profile === undefined) {
+    return { client: supabaseClient, args };
+  }
+
+  const { profile, ...rest } = args;
+  if (!supabaseClient.hasProfile(profile)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown profile '${profile}'. Use connection_list_profiles to see configured profiles`
+    );
+  }
+
+  return { client: supabaseClient.forProfile(profile), args: rest };
+}
+
+/**
+ * Database, storage and SQL tools can run as another user or role, to see
+ * exactly what RLS lets that identity do
+ */
+const IMPERSONATION_CATEGORIES: ToolCategory[] = ['database', 'storage', 'sql'];
+
+const IMPERSONATION_ARGUMENTS = {
+  as_user: {
+    type: 'string',
+    description: 'Run as this user: a user ID, an email or an access token (needs SUPABASE_JWT_SECRET unless a token is given)',
+  },
+  as_role: {
+    type: 'string',
+    description: 'Run as this Postgres role, e.g. anon or authenticated (default with as_user: the user\'s role)',
+  },
+};
+
+function withImpersonationArguments(registration: RegisteredTool, inputSchema: Tool['inputSchema']): Tool['inputSchema'] {
+  if (!IMPERSONATION_CATEGORIES.includes(registration.category)) {
+    return inputSchema;
+  }
+  return {
+    ...inputSchema,
+    properties: { ...inputSchema.properties, ...IMPERSONATION_ARGUMENTS },
+  };
+}
+
+async function resolveIdentity(
+  registration: RegisteredTool,
+  supabaseClient: SupabaseClient,
+  args: Record<string, any>
+): Promise<{ client: SupabaseClient; args: Record<string, any> }> {
+  if (!IMPERSONATION_CATEGORIES.includes(registration.category) || (!args.as_user && !args.as_role)) {
+    return { client: supabaseClient, args };
+  }
+
+  const { as_user, as_role, ...rest } = args;
+  const impersonation = await resolveImpersonation(supabaseClient, { asUser: as_user, asRole: as_role });
+  return { client: supabaseClient.actingAs(impersonation), args: rest };
+}
+
+const CATEGORY_TITLES: Record<ToolCategory, string> = {
+  connection: 'Connection',
+  auth: 'Authentication',
+  schema: 'Schema Exploration',
+  database: 'Database Operations',
+  realtime: 'Realtime',
+  storage: 'Storage Management',
+  sql: 'SQL & Advanced Queries',
+  edge: 'Edge Functions',
+  security: 'Security & RLS',
+  audit: 'Audit',
+};
+
+// Type definitions
+export type ToolCategory =
+  | 'connection'
+  | 'auth'
+  | 'schema'
+  | 'database'
+  | 'realtime'
+  | 'storage'
+  | 'sql'
+  | 'edge'
+  | 'security'
+  | 'audit';
+
+/**
+ * read: never modifies anything; write: creates or changes data or state;
+ * destructive: can delete data or remove access controls
+ */
+export type ToolSafety = 'read' | 'write' | 'destructive';
+
+export type ToolHandler = (
+  supabaseClient: SupabaseClient,
+  name: string,
+  args: any
+) => Promise<CallToolResult>;
+
+export interface RegisteredTool {
+  tool: Tool;
+  category: ToolCategory;
+  safety: ToolSafety;
+  handler: ToolHandler;
+}
+
+export interface ToolModule {
+  category: ToolCategory;
+  tools: Tool[];
+  handler: ToolHandler;
+  safety: Record<string, ToolSafety>;
+}
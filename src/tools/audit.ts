@@ -0,0 +1,132 @@
+import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { SupabaseClient } from '../supabase-client.js';
+import { ToolRegistry } from '../tool-registry.js';
+import { getAuditLog } from '../audit-log.js';
+
+export function getAuditTools(): Tool[] {
+  return [
+    {
+      name: 'audit_query',
+      description: 'Search the audit log of tool invocations (newest first)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          tool: {
+            type: 'string',
+            description: 'Tool name, * wildcards allowed (e.g. "db_delete" or "storage_*")',
+          },
+          recorded_profile: {
+            type: 'string',
+            description: 'Only entries recorded against this connection profile',
+          },
+          success: {
+            type: 'boolean',
+            description: 'Only successful (true) or failed (false) invocations',
+          },
+          since: {
+            type: 'string',
+            description: 'ISO timestamp, only entries at or after this time',
+          },
+          until: {
+            type: 'string',
+            description: 'ISO timestamp, only entries at or before this time',
+          },
+          contains: {
+            type: 'string',
+            description: 'Case-insensitive text that must appear in the entry (table name, id, ...)',
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of entries to return (default: 50)',
+            default: 50,
+          },
+        },
+      },
+    },
+  ];
+}
+
+export function registerAuditTools(registry: ToolRegistry): void {
+  registry.registerModule({
+    category: 'audit',
+    tools: getAuditTools(),
+    handler: handleAuditTool,
+    safety: {
+      audit_query: 'read',
+    },
+  });
+}
+
+export async function handleAuditTool(
+  supabaseClient: SupabaseClient,
+  name: string,
+  args: any
+): Promise<CallToolResult> {
+  const auditLog = getAuditLog();
+
+  switch (name) {
+    case 'audit_query': {
+      const { tool, recorded_profile, success, since, until, contains, limit = 50 } = args;
+
+      try {
+        if (!auditLog.isEnabled()) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  operation: 'audit_query',
+                  error: 'Audit logging is disabled',
+                  suggestion: 'Unset MCP_AUDIT_LOG (or set it to "on") to record tool invocations',
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        const { entries, scanned } = await auditLog.query({
+          tool,
+          profile: recorded_profile,
+          success,
+          since,
+          until,
+          contains,
+          limit,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                operation: 'audit_query',
+                log_file: auditLog.getFilePath(),
+                entries,
+                count: entries.length,
+                scanned_entries: scanned,
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: error instanceof Error ? error.message : String(error),
+                operation: 'audit_query',
+              }, null, 2),
+            },
+          ],
+        };
+      }
+    }
+
+    default:
+      throw new Error(`Unknown audit tool: ${name}`);
+  }
+}
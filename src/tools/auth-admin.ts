@@ -0,0 +1,1467 @@
+import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { AdminUserAttributes, GenerateLinkParams, User } from '@supabase/supabase-js';
+import { SupabaseClient } from '../supabase-client.js';
+import { ToolRegistry } from '../tool-registry.js';
+import { resilientFetch } from '../http-client.js';
+import { parseCsv, toCsv } from '../csv.js';
+import { describePostgresError } from '../postgres.js';
+
+export function getAuthAdminTools(): Tool[] {
+  return [
+    {
+      name: 'auth_admin_list_users',
+      description: 'List users (paginated), optionally searching by email or name, like the dashboard Users page',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          search: {
+            type: 'string',
+            description: 'Case-insensitive text matched against email and full name',
+          },
+          page: {
+            type: 'number',
+            description: 'Page number, starting at 1',
+            default: 1,
+            minimum: 1,
+          },
+          per_page: {
+            type: 'number',
+            description: 'Users per page (max 1000)',
+            default: 50,
+            minimum: 1,
+            maximum: 1000,
+          },
+        },
+      },
+    },
+    {
+      name: 'auth_admin_get_user',
+      description: 'Get a user with metadata, identities and factors',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          user_id: {
+            type: 'string',
+            description: 'User ID',
+          },
+        },
+        required: ['user_id'],
+      },
+    },
+    {
+      name: 'auth_admin_create_user',
+      description: 'Create a user with the service role, optionally pre-confirmed',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          email: {
+            type: 'string',
+            description: 'Email address',
+          },
+          phone: {
+            type: 'string',
+            description: 'Phone number',
+          },
+          password: {
+            type: 'string',
+            description: 'Password (omit for passwordless users)',
+          },
+          email_confirm: {
+            type: 'boolean',
+            description: 'Mark the email as confirmed so no confirmation mail is needed',
+            default: false,
+          },
+          phone_confirm: {
+            type: 'boolean',
+            description: 'Mark the phone as confirmed',
+            default: false,
+          },
+          user_metadata: {
+            type: 'object',
+            description: 'Metadata the user can edit (raw_user_meta_data)',
+            additionalProperties: true,
+          },
+          app_metadata: {
+            type: 'object',
+            description: 'Metadata only the service role can edit (raw_app_meta_data)',
+            additionalProperties: true,
+          },
+        },
+      },
+    },
+    {
+      name: 'auth_admin_update_user',
+      description: 'Update a user\'s email, phone, password, metadata or confirmation status',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          user_id: {
+            type: 'string',
+            description: 'User ID',
+          },
+          email: {
+            type: 'string',
+            description: 'New email address',
+          },
+          phone: {
+            type: 'string',
+            description: 'New phone number',
+          },
+          password: {
+            type: 'string',
+            description: 'New password',
+          },
+          email_confirm: {
+            type: 'boolean',
+            description: 'Confirm the email address',
+          },
+          phone_confirm: {
+            type: 'boolean',
+            description: 'Confirm the phone number',
+          },
+          user_metadata: {
+            type: 'object',
+            description: 'Replacement user metadata',
+            additionalProperties: true,
+          },
+          app_metadata: {
+            type: 'object',
+            description: 'Replacement app metadata',
+            additionalProperties: true,
+          },
+        },
+        required: ['user_id'],
+      },
+    },
+    {
+      name: 'auth_admin_delete_user',
+      description: 'Delete a user, or soft-delete it to keep its rows and ID',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          user_id: {
+            type: 'string',
+            description: 'User ID',
+          },
+          soft_delete: {
+            type: 'boolean',
+            description: 'Mark the user deleted instead of removing it',
+            default: false,
+          },
+        },
+        required: ['user_id'],
+      },
+    },
+    {
+      name: 'auth_admin_invite_user',
+      description: 'Invite a user by email; they set a password when following the link (needs SMTP)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          email: {
+            type: 'string',
+            description: 'Email address to invite',
+          },
+          redirect_to: {
+            type: 'string',
+            description: 'URL the invite link redirects to',
+          },
+          data: {
+            type: 'object',
+            description: 'User metadata to store on the invited user',
+            additionalProperties: true,
+          },
+        },
+        required: ['email'],
+      },
+    },
+    {
+      name: 'auth_admin_generate_link',
+      description: 'Generate a signup, invite, magic link, recovery or email-change link and code without sending any email',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          type: {
+            type: 'string',
+            enum: ['signup', 'invite', 'magiclink', 'recovery', 'email_change_current', 'email_change_new'],
+            description: 'Kind of link',
+          },
+          email: {
+            type: 'string',
+            description: 'User email address',
+          },
+          password: {
+            type: 'string',
+            description: 'Password for signup links',
+          },
+          new_email: {
+            type: 'string',
+            description: 'New address for email_change links',
+          },
+          redirect_to: {
+            type: 'string',
+            description: 'URL the link redirects to',
+          },
+          data: {
+            type: 'object',
+            description: 'User metadata for signup and invite links',
+            additionalProperties: true,
+          },
+        },
+        required: ['type', 'email'],
+      },
+    },
+    {
+      name: 'auth_admin_list_factors',
+      description: 'List a user\'s MFA factors',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          user_id: {
+            type: 'string',
+            description: 'User ID',
+          },
+        },
+        required: ['user_id'],
+      },
+    },
+    {
+      name: 'auth_admin_delete_factor',
+      description: 'Delete a user\'s MFA factor, e.g. when they lost their authenticator; deleting a verified factor signs the user out everywhere',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          user_id: {
+            type: 'string',
+            description: 'User ID',
+          },
+          factor_id: {
+            type: 'string',
+            description: 'Factor ID from auth_admin_list_factors',
+          },
+        },
+        required: ['user_id', 'factor_id'],
+      },
+    },
+    {
+      name: 'auth_admin_ban_user',
+      description: 'Ban a user for a duration: they cannot sign in or refresh tokens until it ends, and their sessions are revoked',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          user_id: {
+            type: 'string',
+            description: 'User ID',
+          },
+          duration: {
+            type: 'string',
+            description: 'How long, as a duration such as 30m, 24h or 720h; "permanent" bans for 100 years',
+          },
+          reason: {
+            type: 'string',
+            description: 'Why the user is banned; kept in the audit log',
+          },
+          revoke_sessions: {
+            type: 'boolean',
+            description: 'Also revoke the user\'s sessions and refresh tokens (needs DATABASE_URL)',
+            default: true,
+          },
+        },
+        required: ['user_id', 'duration'],
+      },
+    },
+    {
+      name: 'auth_admin_unban_user',
+      description: 'Lift a user\'s ban',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          user_id: {
+            type: 'string',
+            description: 'User ID',
+          },
+          reason: {
+            type: 'string',
+            description: 'Why the ban is lifted; kept in the audit log',
+          },
+        },
+        required: ['user_id'],
+      },
+    },
+    {
+      name: 'auth_admin_revoke_sessions',
+      description: 'Sign a user out everywhere by revoking all their sessions and refresh tokens',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          user_id: {
+            type: 'string',
+            description: 'User ID',
+          },
+          access_token: {
+            type: 'string',
+            description: 'One of the user\'s access tokens, used to sign them out through GoTrue when DATABASE_URL is not configured',
+          },
+          reason: {
+            type: 'string',
+            description: 'Why the sessions are revoked; kept in the audit log',
+          },
+        },
+        required: ['user_id'],
+      },
+    },
+    {
+      name: 'auth_admin_list_banned_users',
+      description: 'List users whose ban has not ended yet',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          page: {
+            type: 'number',
+            description: 'Page number, starting at 1',
+            default: 1,
+            minimum: 1,
+          },
+          per_page: {
+            type: 'number',
+            description: 'Users per page',
+            default: 50,
+            minimum: 1,
+            maximum: 1000,
+          },
+        },
+      },
+    },
+    {
+      name: 'auth_admin_list_user_providers',
+      description: 'List users with the provider they signed up with and every identity linked since, to debug OAuth account merging',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          provider: {
+            type: 'string',
+            description: 'Only users with an identity for this provider (e.g. github, email)',
+          },
+          linked_only: {
+            type: 'boolean',
+            description: 'Only users with more than one identity',
+            default: false,
+          },
+          page: {
+            type: 'number',
+            description: 'Page of users to scan, starting at 1',
+            default: 1,
+            minimum: 1,
+          },
+          per_page: {
+            type: 'number',
+            description: 'Users scanned per page',
+            default: 50,
+            minimum: 1,
+            maximum: 1000,
+          },
+        },
+      },
+    },
+    {
+      name: 'auth_audit_log',
+      description: 'Search GoTrue\'s own history of sign-ins, sign-ups, token refreshes and admin actions in auth.audit_log_entries (newest first; needs DATABASE_URL)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          user: {
+            type: 'string',
+            description: 'User ID or email, matched as the actor or the target of the action',
+          },
+          actions: {
+            type: 'array',
+            description: 'Only these actions, e.g. login, logout, token_refreshed, token_revoked, user_signedup, user_recovery_requested, user_modified, user_deleted',
+            items: {
+              type: 'string',
+            },
+          },
+          since: {
+            type: 'string',
+            description: 'ISO timestamp, only entries at or after this time',
+          },
+          until: {
+            type: 'string',
+            description: 'ISO timestamp, only entries at or before this time',
+          },
+          page: {
+            type: 'number',
+            description: 'Page number, starting at 1',
+            default: 1,
+            minimum: 1,
+          },
+          per_page: {
+            type: 'number',
+            description: 'Entries per page',
+            default: 50,
+            minimum: 1,
+            maximum: 1000,
+          },
+        },
+      },
+    },
+    {
+      name: 'auth_export_users',
+      description: 'Export users with metadata and identities as CSV or JSON, one page at a time',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: {
+            type: 'string',
+            enum: ['json', 'csv'],
+            description: 'Output format',
+            default: 'json',
+          },
+          search: {
+            type: 'string',
+            description: 'Only users whose email or full name contains this text',
+          },
+          page: {
+            type: 'number',
+            description: 'Page number, starting at 1',
+            default: 1,
+            minimum: 1,
+          },
+          per_page: {
+            type: 'number',
+            description: 'Users per page (max 1000)',
+            default: 1000,
+            minimum: 1,
+            maximum: 1000,
+          },
+          include_password_hashes: {
+            type: 'boolean',
+            description: 'Add bcrypt password hashes from auth.users (needs DATABASE_URL)',
+            default: false,
+          },
+        },
+      },
+    },
+    {
+      name: 'auth_import_users',
+      description: 'Create users from CSV or JSON (as produced by auth_export_users), with dry-run, per-row errors and resumable batches',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          data: {
+            type: 'string',
+            description: 'CSV with a header row, or a JSON array of users. Columns: email, phone, password or password_hash (bcrypt), email_confirmed_at or email_confirm, phone_confirmed_at or phone_confirm, user_metadata, app_metadata, id, role',
+          },
+          format: {
+            type: 'string',
+            enum: ['json', 'csv'],
+            description: 'Input format (default: detected from the data)',
+          },
+          dry_run: {
+            type: 'boolean',
+            description: 'Only validate the rows of the batch',
+            default: false,
+          },
+          start_index: {
+            type: 'number',
+            description: 'Index of the first row to import (0-based), to resume a previous run',
+            default: 0,
+            minimum: 0,
+          },
+          batch_size: {
+            type: 'number',
+            description: 'Rows to process in this call',
+            default: 100,
+            minimum: 1,
+            maximum: 1000,
+          },
+        },
+        required: ['data'],
+      },
+    },
+  ];
+}
+
+export function registerAuthAdminTools(registry: ToolRegistry): void {
+  registry.registerModule({
+    category: 'auth',
+    tools: getAuthAdminTools(),
+    handler: handleAuthAdminTool,
+    safety: {
+      auth_admin_list_users: 'read',
+      auth_admin_get_user: 'read',
+      auth_admin_create_user: 'write',
+      auth_admin_update_user: 'write',
+      auth_admin_delete_user: 'destructive',
+      auth_admin_invite_user: 'write',
+      auth_admin_generate_link: 'write',
+      auth_admin_list_factors: 'read',
+      auth_admin_delete_factor: 'destructive',
+      auth_admin_ban_user: 'write',
+      auth_admin_unban_user: 'write',
+      auth_admin_revoke_sessions: 'write',
+      auth_admin_list_banned_users: 'read',
+      auth_admin_list_user_providers: 'read',
+      auth_audit_log: 'read',
+      auth_export_users: 'read',
+      auth_import_users: 'write',
+    },
+  });
+}
+
+export async function handleAuthAdminTool(
+  supabaseClient: SupabaseClient,
+  name: string,
+  args: any
+): Promise<CallToolResult> {
+  const admin = supabaseClient.getAdminClient().auth.admin;
+
+  switch (name) {
+    case 'auth_admin_list_users': {
+      const { search, page = 1, per_page = 50 } = args;
+
+      try {
+        const { users, total } = await listUsers(supabaseClient, { search, page, perPage: per_page });
+
+        return jsonResult({
+          success: true,
+          operation: 'admin_list_users',
+          users: users.map(summarizeUser),
+          count: users.length,
+          page,
+          per_page,
+          total,
+          next_page: total !== null ? (page * per_page < total ? page + 1 : null) : (users.length === per_page ? page + 1 : null),
+          ...(search ? { search } : {}),
+        });
+      } catch (error) {
+        return jsonResult({
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          operation: 'admin_list_users',
+          suggestion: 'The admin API needs the service role key',
+        });
+      }
+    }
+
+    case 'auth_admin_get_user': {
+      const { user_id } = args;
+      const { data, error } = await admin.getUserById(user_id).catch(asAuthError);
+
+      if (error || !data.user) {
+        return jsonResult({
+          success: false,
+          error: error?.message || 'User not found',
+          operation: 'admin_get_user',
+          user_id,
+        });
+      }
+
+      return jsonResult({
+        success: true,
+        operation: 'admin_get_user',
+        user: data.user,
+      });
+    }
+
+    case 'auth_admin_create_user': {
+      const { email, phone, password, email_confirm = false, phone_confirm = false, user_metadata, app_metadata } = args;
+
+      if (!email && !phone) {
+        return jsonResult({
+          success: false,
+          error: 'Either email or phone is required',
+          operation: 'admin_create_user',
+        });
+      }
+
+      const { data, error } = await admin.createUser({
+        email,
+        phone,
+        password,
+        email_confirm,
+        phone_confirm,
+        user_metadata,
+        app_metadata,
+      }).catch(asAuthError);
+
+      if (error || !data.user) {
+        return jsonResult({
+          success: false,
+          error: error?.message || 'No user returned',
+          operation: 'admin_create_user',
+          suggestion: 'Check that the email or phone is not already registered and the password meets the configured policy',
+        });
+      }
+
+      return jsonResult({
+        success: true,
+        operation: 'admin_create_user',
+        user: summarizeUser(data.user),
+        count: 1,
+        ...(email && !email_confirm ? { note: 'The email is unconfirmed; the user cannot sign in until it is confirmed if confirmations are enabled' } : {}),
+      });
+    }
+
+    case 'auth_admin_update_user': {
+      const { user_id, ...changes } = args;
+      const attributes: AdminUserAttributes = {};
+
+      for (const key of UPDATABLE_ATTRIBUTES) {
+        if (changes[key] !== undefined) {
+          (attributes as Record<string, unknown>)[key] = changes[key];
+        }
+      }
+
+      if (Object.keys(attributes).length === 0) {
+        return jsonResult({
+          success: false,
+          error: `Nothing to update; pass at least one of ${UPDATABLE_ATTRIBUTES.join(', ')}`,
+          operation: 'admin_update_user',
+          user_id,
+        });
+      }
+
+      const { data, error } = await admin.updateUserById(user_id, attributes).catch(asAuthError);
+
+      if (error || !data.user) {
+        return jsonResult({
+          success: false,
+          error: error?.message || 'User not found',
+          operation: 'admin_update_user',
+          user_id,
+        });
+      }
+
+      return jsonResult({
+        success: true,
+        operation: 'admin_update_user',
+        user: summarizeUser(data.user),
+        updated_fields: Object.keys(attributes),
+        count: 1,
+      });
+    }
+
+    case 'auth_admin_delete_user': {
+      const { user_id, soft_delete = false } = args;
+      const { error } = await admin.deleteUser(user_id, soft_delete).catch(asAuthError);
+
+      if (error) {
+        return jsonResult({
+          success: false,
+          error: error.message,
+          operation: 'admin_delete_user',
+          user_id,
+          suggestion: 'Rows referencing auth.users without ON DELETE CASCADE block a hard delete; try soft_delete',
+        });
+      }
+
+      return jsonResult({
+        success: true,
+        operation: 'admin_delete_user',
+        user_id,
+        soft_deleted: soft_delete,
+        count: 1,
+      });
+    }
+
+    case 'auth_admin_invite_user': {
+      const { email, redirect_to, data } = args;
+      const { data: invited, error } = await admin.inviteUserByEmail(email, { redirectTo: redirect_to, data }).catch(asAuthError);
+
+      if (error || !invited.user) {
+        return jsonResult({
+          success: false,
+          error: error?.message || 'No user returned',
+          operation: 'admin_invite_user',
+          email,
+          troubleshooting: {
+            common_issues: [
+              'SMTP is not configured on the stack (GOTRUE_SMTP_* settings)',
+              'A user with this email is already registered',
+              'redirect_to is not in the allowed redirect URLs (GOTRUE_URI_ALLOW_LIST)',
+            ],
+            without_smtp: 'Use auth_admin_generate_link with type "invite" and deliver the link yourself',
+          },
+        });
+      }
+
+      return jsonResult({
+        success: true,
+        operation: 'admin_invite_user',
+        user: summarizeUser(invited.user),
+        invited_at: invited.user.invited_at || null,
+        count: 1,
+      });
+    }
+
+    case 'auth_admin_generate_link': {
+      const { type, email, password, new_email, redirect_to, data } = args;
+      let params: GenerateLinkParams;
+
+      if (type === 'signup') {
+        if (!password) {
+          return jsonResult({ success: false, error: 'Signup links need a password', operation: 'admin_generate_link' });
+        }
+        params = { type, email, password, options: { redirectTo: redirect_to, data } };
+      } else if (type === 'email_change_current' || type === 'email_change_new') {
+        if (!new_email) {
+          return jsonResult({ success: false, error: 'Email change links need new_email', operation: 'admin_generate_link' });
+        }
+        params = { type, email, newEmail: new_email, options: { redirectTo: redirect_to } };
+      } else if (type === 'recovery') {
+        params = { type, email, options: { redirectTo: redirect_to } };
+      } else {
+        params = { type, email, options: { redirectTo: redirect_to, data } };
+      }
+
+      const { data: generated, error } = await admin.generateLink(params).catch(asAuthError);
+
+      if (error || !generated.properties) {
+        return jsonResult({
+          success: false,
+          error: error?.message || 'No link returned',
+          operation: 'admin_generate_link',
+          type,
+          email,
+        });
+      }
+
+      return jsonResult({
+        success: true,
+        operation: 'admin_generate_link',
+        type,
+        action_link: generated.properties.action_link,
+        email_otp: generated.properties.email_otp,
+        hashed_token: generated.properties.hashed_token,
+        verification_type: generated.properties.verification_type,
+        redirect_to: generated.properties.redirect_to,
+        user: generated.user ? summarizeUser(generated.user) : null,
+        note: 'Nothing was sent. Open action_link, or call auth_verify_otp with token_hash (or email and email_otp)',
+      });
+    }
+
+    case 'auth_admin_list_factors': {
+      const { user_id } = args;
+      const { data, error } = await admin.mfa.listFactors({ userId: user_id }).catch(asAuthError);
+
+      if (error || !data) {
+        return jsonResult({
+          success: false,
+          error: error?.message || 'User not found',
+          operation: 'admin_list_factors',
+          user_id,
+        });
+      }
+
+      return jsonResult({
+        success: true,
+        operation: 'admin_list_factors',
+        user_id,
+        factors: data.factors.map((factor) => ({
+          id: factor.id,
+          type: factor.factor_type,
+          friendly_name: factor.friendly_name ?? null,
+          status: factor.status,
+          created_at: factor.created_at,
+          updated_at: factor.updated_at,
+        })),
+        count: data.factors.length,
+      });
+    }
+
+    case 'auth_admin_delete_factor': {
+      const { user_id, factor_id } = args;
+      const { error } = await admin.mfa.deleteFactor({ userId: user_id, id: factor_id }).catch(asAuthError);
+
+      if (error) {
+        return jsonResult({
+          success: false,
+          error: error.message,
+          operation: 'admin_delete_factor',
+          user_id,
+          factor_id,
+          suggestion: 'Check the factor belongs to the user with auth_admin_list_factors',
+        });
+      }
+
+      return jsonResult({
+        success: true,
+        operation: 'admin_delete_factor',
+        user_id,
+        factor_id,
+        count: 1,
+        note: 'If the factor was verified, the user\'s sessions were revoked and they sign in again without it',
+      });
+    }
+
+    case 'auth_admin_ban_user': {
+      const { user_id, duration, reason, revoke_sessions = true } = args;
+      const banDuration = duration === 'permanent' ? PERMANENT_BAN_DURATION : duration;
+
+      if (banDuration === 'none') {
+        return jsonResult({
+          success: false,
+          error: 'Use auth_admin_unban_user to lift a ban',
+          operation: 'admin_ban_user',
+          user_id,
+        });
+      }
+
+      const { data, error } = await admin.updateUserById(user_id, { ban_duration: banDuration }).catch(asAuthError);
+
+      if (error || !data.user) {
+        return jsonResult({
+          success: false,
+          error: error?.message || 'User not found',
+          operation: 'admin_ban_user',
+          user_id,
+          suggestion: 'duration must be a number followed by a unit (ms, s, m, h), e.g. 24h',
+        });
+      }
+
+      let revoked: RevokedSessions | null = null;
+      let revokeError: string | null = null;
+      if (revoke_sessions) {
+        try {
+          revoked = await revokeSessions(supabaseClient, user_id);
+        } catch (error) {
+          revokeError = error instanceof Error ? error.message : String(error);
+        }
+      }
+
+      return jsonResult({
+        success: true,
+        operation: 'admin_ban_user',
+        user: summarizeUser(data.user),
+        duration: banDuration,
+        ...(reason ? { reason } : {}),
+        revoked_sessions: revoked,
+        count: 1,
+        ...(revokeError ? {
+          warning: `Sessions were not revoked: ${revokeError}. The ban blocks sign-in and token refresh, but access tokens already issued stay valid until they expire`,
+        } : {}),
+      });
+    }
+
+    case 'auth_admin_unban_user': {
+      const { user_id, reason } = args;
+      const { data, error } = await admin.updateUserById(user_id, { ban_duration: 'none' }).catch(asAuthError);
+
+      if (error || !data.user) {
+        return jsonResult({
+          success: false,
+          error: error?.message || 'User not found',
+          operation: 'admin_unban_user',
+          user_id,
+        });
+      }
+
+      return jsonResult({
+        success: true,
+        operation: 'admin_unban_user',
+        user: summarizeUser(data.user),
+        ...(reason ? { reason } : {}),
+        count: 1,
+      });
+    }
+
+    case 'auth_admin_revoke_sessions': {
+      const { user_id, access_token, reason } = args;
+
+      try {
+        const revoked = await revokeSessions(supabaseClient, user_id, access_token);
+
+        return jsonResult({
+          success: true,
+          operation: 'admin_revoke_sessions',
+          user_id,
+          ...(reason ? { reason } : {}),
+          revoked_sessions: revoked,
+          count: revoked.sessions ?? 1,
+          note: 'Access tokens already issued stay valid until they expire; the user cannot refresh them',
+        });
+      } catch (error) {
+        return jsonResult({
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          operation: 'admin_revoke_sessions',
+          user_id,
+        });
+      }
+    }
+
+    case 'auth_admin_list_banned_users': {
+      const { page = 1, per_page = 50 } = args;
+
+      try {
+        const { users, total } = await listBannedUsers(supabaseClient, page, per_page);
+
+        return jsonResult({
+          success: true,
+          operation: 'admin_list_banned_users',
+          users: users.map(summarizeUser),
+          count: users.length,
+          page,
+          per_page,
+          total,
+          next_page: page * per_page < total ? page + 1 : null,
+        });
+      } catch (error) {
+        return jsonResult({
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          operation: 'admin_list_banned_users',
+        });
+      }
+    }
+
+    case 'auth_admin_list_user_providers': {
+      const { provider, linked_only = false, page = 1, per_page = 50 } = args;
+
+      try {
+        const { users, total } = await listUsers(supabaseClient, { page, perPage: per_page });
+        const rows = users
+          .map((user) => ({
+            id: user.id,
+            email: user.email || null,
+            signup_provider: user.app_metadata?.provider || null,
+            providers: user.app_metadata?.providers || [],
+            identities: (user.identities || []).map((identity) => ({
+              identity_id: identity.identity_id,
+              provider: identity.provider,
+              email: identity.identity_data?.email ?? null,
+              created_at: identity.created_at ?? null,
+              last_sign_in_at: identity.last_sign_in_at ?? null,
+            })),
+          }))
+          .filter((row) => !provider || row.identities.some((identity) => identity.provider === provider))
+          .filter((row) => !linked_only || row.identities.length > 1);
+
+        const byProvider: Record<string, number> = {};
+        for (const row of rows) {
+          for (const name of new Set(row.identities.map((identity) => identity.provider))) {
+            byProvider[name] = (byProvider[name] || 0) + 1;
+          }
+        }
+
+        return jsonResult({
+          success: true,
+          operation: 'admin_list_user_providers',
+          users: rows,
+          count: rows.length,
+          users_by_provider: byProvider,
+          page,
+          per_page,
+          total_users: total,
+          next_page: total !== null ? (page * per_page < total ? page + 1 : null) : (users.length === per_page ? page + 1 : null),
+          ...(provider || linked_only ? { note: 'Filters apply to the scanned page; follow next_page to scan the rest' } : {}),
+        });
+      } catch (error) {
+        return jsonResult({
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          operation: 'admin_list_user_providers',
+          suggestion: 'The admin API needs the service role key',
+        });
+      }
+    }
+
+    case 'auth_audit_log': {
+      const { user, actions, since, until, page = 1, per_page = 50 } = args;
+      const postgres = supabaseClient.getPostgres();
+
+      if (!postgres) {
+        return jsonResult({
+          success: false,
+          error: 'auth.audit_log_entries is only reachable over the direct Postgres connection',
+          operation: 'auth_audit_log',
+          suggestion: 'Set DATABASE_URL (or databaseUrl in the profile) to the stack\'s Postgres connection string',
+        });
+      }
+
+      const conditions: string[] = [];
+      const params: any[] = [];
+      if (user) {
+        params.push(user);
+        // Emails compare case-insensitively but exactly; ILIKE would treat % and _ as wildcards
+        conditions.push(user.includes('@')
+          ? `(lower(payload->>'actor_username') = lower($${params.length}) OR lower(payload->'traits'->>'user_email') = lower($${params.length}))`
+          : `(payload->>'actor_id' = $${params.length} OR payload->'traits'->>'user_id' = $${params.length})`);
+      }
+      if (actions?.length) {
+        params.push(actions);
+        conditions.push(`payload->>'action' = ANY($${params.length})`);
+      }
+      if (since) {
+        params.push(since);
+        conditions.push(`created_at >= $${params.length}`);
+      }
+      if (until) {
+        params.push(until);
+        conditions.push(`created_at <= $${params.length}`);
+      }
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+      try {
+        // ip_address only exists on newer GoTrue versions, so read it through to_jsonb
+        const entries = `WITH entries AS (
+            SELECT id, created_at, payload::jsonb AS payload, to_jsonb(audit_log_entries)->>'ip_address' AS ip_address
+              FROM auth.audit_log_entries
+          )`;
+        const [result] = await postgres.query(
+          `${entries}
+           SELECT id, created_at, payload, ip_address, count(*) OVER () AS total
+             FROM entries ${where}
+            ORDER BY created_at DESC
+            LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+          [...params, per_page, (page - 1) * per_page]
+        );
+        const total = result.rows.length > 0
+          ? Number(result.rows[0].total)
+          : Number((await postgres.query(`${entries} SELECT count(*) AS total FROM entries ${where}`, params))[0].rows[0].total);
+
+        return jsonResult({
+          success: true,
+          operation: 'auth_audit_log',
+          entries: result.rows.map(decodeAuditEntry),
+          count: result.rows.length,
+          page,
+          per_page,
+          total,
+          next_page: page * per_page < total ? page + 1 : null,
+          ...(total === 0 && user ? { note: 'Failed sign-ins with a wrong password are not recorded by GoTrue; check the auth service logs for those' } : {}),
+        });
+      } catch (error) {
+        return jsonResult({
+          success: false,
+          operation: 'auth_audit_log',
+          ...describePostgresError(error),
+        });
+      }
+    }
+
+    case 'auth_export_users': {
+      const { format = 'json', search, page = 1, per_page = 1000, include_password_hashes = false } = args;
+
+      try {
+        const { users, total } = await listUsers(supabaseClient, { search, page, perPage: per_page });
+        let hashes = new Map<string, string>();
+
+        if (include_password_hashes) {
+          const postgres = supabaseClient.getPostgres();
+          if (!postgres) {
+            return jsonResult({
+              success: false,
+              error: 'include_password_hashes needs a direct database connection',
+              operation: 'export_users',
+              suggestion: 'Set DATABASE_URL; the admin API never returns password hashes',
+            });
+          }
+          const [result] = await postgres.query(
+            'SELECT id::text AS id, encrypted_password FROM auth.users WHERE id = ANY($1::uuid[])',
+            [users.map((user) => user.id)]
+          );
+          hashes = new Map(result.rows.map((row) => [row.id, row.encrypted_password]));
+        }
+
+        const records = users.map((user) => exportRecord(user, hashes.get(user.id)));
+
+        return jsonResult({
+          success: true,
+          operation: 'export_users',
+          format,
+          content: format === 'csv' ? toCsv(records, EXPORT_COLUMNS) : JSON.stringify(records, null, 2),
+          count: records.length,
+          page,
+          per_page,
+          total,
+          next_page: total !== null ? (page * per_page < total ? page + 1 : null) : (records.length === per_page ? page + 1 : null),
+          ...(include_password_hashes ? { warning: 'The export contains password hashes; store it like a credential' } : {}),
+        });
+      } catch (error) {
+        return jsonResult({
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          operation: 'export_users',
+        });
+      }
+    }
+
+    case 'auth_import_users': {
+      const { data, format, dry_run = false, start_index = 0, batch_size = 100 } = args;
+      let rows: Record<string, any>[];
+
+      try {
+        rows = parseImportRows(data, format);
+      } catch (error) {
+        return jsonResult({
+          success: false,
+          error: `Cannot parse input: ${error instanceof Error ? error.message : String(error)}`,
+          operation: 'import_users',
+        });
+      }
+
+      const batch = rows.slice(start_index, start_index + batch_size);
+      const results: ImportRowResult[] = [];
+
+      for (const [offset, row] of batch.entries()) {
+        const index = start_index + offset;
+        const label = row.email || row.phone || null;
+        let attributes: AdminUserAttributes;
+
+        try {
+          attributes = toUserAttributes(row);
+        } catch (error) {
+          results.push({ index, user: label, status: 'invalid', error: error instanceof Error ? error.message : String(error) });
+          continue;
+        }
+
+        if (dry_run) {
+          results.push({ index, user: label, status: 'valid' });
+          continue;
+        }
+
+        const { data: created, error } = await admin.createUser(attributes).catch(asAuthError);
+        results.push(error || !created.user
+          ? { index, user: label, status: 'failed', error: error?.message || 'No user returned' }
+          : { index, user: label, status: 'created', user_id: created.user.id });
+      }
+
+      const tally = (status: ImportRowResult['status']) => results.filter((result) => result.status === status).length;
+      const problems = tally('invalid') + tally('failed');
+      const nextIndex = start_index + batch.length < rows.length ? start_index + batch.length : null;
+
+      return jsonResult({
+        success: true,
+        operation: 'import_users',
+        dry_run,
+        total_rows: rows.length,
+        processed: results.length,
+        created: tally('created'),
+        valid: tally('valid'),
+        invalid: tally('invalid'),
+        failed: tally('failed'),
+        count: tally('created'),
+        next_index: nextIndex,
+        // Successful rows are left out to keep large batches readable
+        errors: results.filter((result) => result.status === 'invalid' || result.status === 'failed'),
+        ...(dry_run ? {} : { created_users: results.filter((result) => result.status === 'created') }),
+        ...(problems > 0 ? { warning: `${problems} row(s) were not imported; fix them and import only those rows again` } : {}),
+        ...(nextIndex !== null ? { note: `Call again with start_index ${nextIndex} to continue` } : {}),
+      });
+    }
+
+    default:
+      throw new Error(`Unknown auth admin tool: ${name}`);
+  }
+}
+
+/**
+ * One page of users from the GoTrue admin API. supabase-js does not expose
+ * the `filter` search parameter, so this calls the endpoint directly.
+ */
+async function listUsers(
+  supabaseClient: SupabaseClient,
+  options: { search?: string; page: number; perPage: number }
+): Promise<{ users: User[]; total: number | null }> {
+  const config = supabaseClient.getConfig();
+  const params = new URLSearchParams({ page: String(options.page), per_page: String(options.perPage) });
+  if (options.search) {
+    params.set('filter', options.search);
+  }
+
+  const response = await resilientFetch(`${config.url}/auth/v1/admin/users?${params}`, {
+    headers: {
+      'apikey': config.serviceRoleKey,
+      'Authorization': `Bearer ${config.serviceRoleKey}`,
+    },
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.msg || body?.message || `HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const body = await response.json();
+  const total = Number(response.headers.get('x-total-count'));
+  return { users: body.users || [], total: Number.isFinite(total) && response.headers.has('x-total-count') ? total : null };
+}
+
+/**
+ * Revoke every session and refresh token of a user. GoTrue only signs users
+ * out with one of their own tokens, so without one this goes through
+ * Postgres.
+ */
+async function revokeSessions(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  accessToken?: string
+): Promise<RevokedSessions> {
+  const postgres = supabaseClient.getPostgres();
+
+  if (postgres) {
+    return postgres.transaction(async (client) => {
+      const tokens = await client.query('DELETE FROM auth.refresh_tokens WHERE user_id = $1', [userId]);
+      const sessions = await client.query('DELETE FROM auth.sessions WHERE user_id = $1', [userId]);
+      return { method: 'postgres', sessions: sessions.rowCount ?? 0, refresh_tokens: tokens.rowCount ?? 0 };
+    });
+  }
+
+  if (accessToken) {
+    const { error } = await supabaseClient.getAdminClient().auth.admin.signOut(accessToken, 'global').catch(asAuthError);
+    if (error) {
+      throw new Error(`GoTrue did not sign the user out: ${error.message}`);
+    }
+    return { method: 'access_token', sessions: null, refresh_tokens: null };
+  }
+
+  throw new Error('Revoking sessions needs DATABASE_URL, or one of the user\'s access tokens as access_token');
+}
+
+/**
+ * Users with a ban that has not ended, newest ban end first; reads
+ * auth.users when Postgres is configured and pages through the admin API
+ * otherwise
+ */
+async function listBannedUsers(
+  supabaseClient: SupabaseClient,
+  page: number,
+  perPage: number
+): Promise<{ users: User[]; total: number }> {
+  const postgres = supabaseClient.getPostgres();
+
+  if (postgres) {
+    const [result] = await postgres.query(
+      `SELECT id, email, phone, role, raw_app_meta_data AS app_metadata, created_at, last_sign_in_at,
+              email_confirmed_at, phone_confirmed_at, banned_until, count(*) OVER () AS total
+         FROM auth.users
+        WHERE banned_until > now()
+        ORDER BY banned_until DESC
+        LIMIT $1 OFFSET $2`,
+      [perPage, (page - 1) * perPage]
+    );
+    const total = result.rows.length > 0
+      ? Number(result.rows[0].total)
+      : Number((await postgres.query('SELECT count(*) AS total FROM auth.users WHERE banned_until > now()'))[0].rows[0].total);
+    return {
+      users: result.rows.map(({ total: _total, ...row }) => ({
+        ...row,
+        created_at: toIsoString(row.created_at),
+        last_sign_in_at: toIsoString(row.last_sign_in_at),
+        email_confirmed_at: toIsoString(row.email_confirmed_at),
+        phone_confirmed_at: toIsoString(row.phone_confirmed_at),
+        banned_until: toIsoString(row.banned_until),
+      }) as unknown as User),
+      total,
+    };
+  }
+
+  const banned: User[] = [];
+  for (let usersPage = 1; ; usersPage++) {
+    const { users } = await listUsers(supabaseClient, { page: usersPage, perPage: 1000 });
+    banned.push(...users.filter((user) => {
+      const until = bannedUntil(user);
+      return until !== null && new Date(until).getTime() > Date.now();
+    }));
+    if (users.length < 1000) {
+      break;
+    }
+  }
+
+  banned.sort((a, b) => bannedUntil(b)!.localeCompare(bannedUntil(a)!));
+  return { users: banned.slice((page - 1) * perPage, page * perPage), total: banned.length };
+}
+
+// Audit payloads name the acting user "actor" and the affected one in traits
+function decodeAuditEntry(row: Record<string, any>): Record<string, any> {
+  const { action, actor_id, actor_username, actor_name, actor_via_sso, log_type, traits } = row.payload || {};
+  return {
+    id: row.id,
+    created_at: toIsoString(row.created_at),
+    action: action || null,
+    actor: {
+      id: actor_id || null,
+      email: actor_username || null,
+      name: actor_name || null,
+      via_sso: actor_via_sso ?? false,
+    },
+    log_type: log_type || null,
+    traits: traits || {},
+    ip_address: row.ip_address || null,
+  };
+}
+
+// auth-js does not type banned_until although GoTrue returns it
+function bannedUntil(user: User): string | null {
+  return (user as User & { banned_until?: string }).banned_until || null;
+}
+
+function toIsoString(value: unknown): string | null {
+  return value instanceof Date ? value.toISOString() : (value as string | null) ?? null;
+}
+
+/**
+ * The columns of the dashboard's user list
+ */
+function summarizeUser(user: User): Record<string, any> {
+  return {
+    id: user.id,
+    email: user.email || null,
+    phone: user.phone || null,
+    role: user.role || null,
+    providers: user.app_metadata?.providers || (user.app_metadata?.provider ? [user.app_metadata.provider] : []),
+    created_at: user.created_at,
+    last_sign_in_at: user.last_sign_in_at || null,
+    email_confirmed_at: user.email_confirmed_at || null,
+    phone_confirmed_at: user.phone_confirmed_at || null,
+    banned_until: bannedUntil(user),
+    is_anonymous: user.is_anonymous ?? false,
+  };
+}
+
+/**
+ * Flat export row; identities are informational since the admin API
+ * cannot recreate them (OAuth users are linked again on their next sign-in)
+ */
+function exportRecord(user: User, passwordHash?: string): Record<string, any> {
+  return {
+    id: user.id,
+    email: user.email || null,
+    phone: user.phone || null,
+    role: user.role || null,
+    email_confirmed_at: user.email_confirmed_at || null,
+    phone_confirmed_at: user.phone_confirmed_at || null,
+    created_at: user.created_at,
+    last_sign_in_at: user.last_sign_in_at || null,
+    ...(passwordHash ? { password_hash: passwordHash } : {}),
+    user_metadata: user.user_metadata || {},
+    app_metadata: user.app_metadata || {},
+    identities: (user.identities || []).map((identity) => ({
+      provider: identity.provider,
+      id: identity.id,
+      identity_data: identity.identity_data,
+    })),
+  };
+}
+
+function parseImportRows(data: string, format?: 'json' | 'csv'): Record<string, any>[] {
+  const detected = format || (/^\s*[[{]/.test(data) ? 'json' : 'csv');
+  if (detected === 'csv') {
+    return parseCsv(data);
+  }
+
+  const parsed = JSON.parse(data);
+  const rows = Array.isArray(parsed) ? parsed : parsed?.users;
+  if (!Array.isArray(rows)) {
+    throw new Error('JSON input must be an array of users or an object with a "users" array');
+  }
+  return rows;
+}
+
+/**
+ * Validate one import row and map it to createUser attributes. CSV values
+ * arrive as strings, so flags and metadata are parsed here.
+ */
+function toUserAttributes(row: Record<string, any>): AdminUserAttributes {
+  if (!row || typeof row !== 'object') {
+    throw new Error('Row is not an object');
+  }
+  if (!row.email && !row.phone) {
+    throw new Error('email or phone is required');
+  }
+  if (row.password && row.password_hash) {
+    throw new Error('Give either password or password_hash, not both');
+  }
+  if (row.password_hash && !BCRYPT_PATTERN.test(row.password_hash)) {
+    throw new Error('password_hash must be a bcrypt hash ($2a$, $2b$ or $2y$)');
+  }
+  if (row.id && !UUID_PATTERN.test(row.id)) {
+    throw new Error(`id ${row.id} is not a UUID`);
+  }
+
+  // GoTrue maintains the provider fields itself
+  const { provider, providers, ...appMetadata } = parseMetadata(row.app_metadata, 'app_metadata');
+
+  const attributes: AdminUserAttributes = {
+    email: row.email || undefined,
+    phone: row.phone || undefined,
+    password: row.password || undefined,
+    password_hash: row.password_hash || undefined,
+    email_confirm: parseFlag(row.email_confirm) || Boolean(row.email_confirmed_at),
+    phone_confirm: parseFlag(row.phone_confirm) || Boolean(row.phone_confirmed_at),
+    user_metadata: parseMetadata(row.user_metadata, 'user_metadata'),
+    app_metadata: appMetadata,
+  };
+  if (row.id) {
+    attributes.id = row.id;
+  }
+  if (row.role) {
+    attributes.role = row.role;
+  }
+  return attributes;
+}
+
+function parseMetadata(value: unknown, column: string): Record<string, any> {
+  if (value === undefined || value === null || value === '') {
+    return {};
+  }
+  if (typeof value === 'object' && !Array.isArray(value)) {
+    return value as Record<string, any>;
+  }
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // Reported below
+    }
+  }
+  throw new Error(`${column} must be a JSON object`);
+}
+
+function parseFlag(value: unknown): boolean {
+  return value === true || (typeof value === 'string' && ['true', '1', 'yes'].includes(value.trim().toLowerCase()));
+}
+
+// auth-js throws for invalid arguments (e.g. a malformed user ID) instead
+// of returning an error; treat both the same way
+function asAuthError(error: unknown): { data: { user: null; properties?: null }; error: { message: string } } {
+  return { data: { user: null, properties: null }, error: { message: error instanceof Error ? error.message : String(error) } };
+}
+
+function jsonResult(payload: Record<string, any>): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(payload, null, 2),
+      },
+    ],
+  };
+}
+
+const EXPORT_COLUMNS = [
+  'id', 'email', 'phone', 'role', 'email_confirmed_at', 'phone_confirmed_at', 'created_at', 'last_sign_in_at',
+  'password_hash', 'user_metadata', 'app_metadata', 'identities',
+];
+const BCRYPT_PATTERN = /^\$2[aby]\$\d{2}\$[./A-Za-z0-9]{53}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// GoTrue has no permanent ban; 100 years is as good as one
+const PERMANENT_BAN_DURATION = '876000h';
+const UPDATABLE_ATTRIBUTES = ['email', 'phone', 'password', 'email_confirm', 'phone_confirm', 'user_metadata', 'app_metadata'] as const;
+
+// Type definitions
+interface RevokedSessions {
+  method: 'postgres' | 'access_token';
+  sessions: number | null;
+  refresh_tokens: number | null;
+}
+
+interface ImportRowResult {
+  index: number;
+  user: string | null;
+  status: 'created' | 'valid' | 'invalid' | 'failed';
+  user_id?: string;
+  error?: string;
+}
@@ -1,6 +1,11 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { Provider } from '@supabase/supabase-js';
 import { SupabaseClient } from '../supabase-client.js';
+import { ToolRegistry } from '../tool-registry.js';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { decodeJwt, mintSupabaseToken, verifyJwt } from '../jwt.js';
+import { resilientFetch } from '../http-client.js';
+import { auditAuthSettings, fetchAuthSettings } from '../auth-settings.js';
 
 export function getAuthTools(): Tool[] {
   return [
@@ -18,6 +23,10 @@ export function getAuthTools(): Tool[] {
             type: 'string',
             description: 'User password',
           },
+          session_name: {
+            type: 'string',
+            description: 'Name to save the session under (default: the email)',
+          },
         },
         required: ['email', 'password'],
       },
@@ -53,6 +62,14 @@ export function getAuthTools(): Tool[] {
         properties: {},
       },
     },
+    {
+      name: 'auth_get_settings',
+      description: 'Read the stack\'s auth settings (sign-up, autoconfirm, enabled providers) and flag risky combinations',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+    },
     {
       name: 'auth_logout',
       description: 'Logout current user',
@@ -61,9 +78,311 @@ export function getAuthTools(): Tool[] {
         properties: {},
       },
     },
+    {
+      name: 'auth_send_magic_link',
+      description: 'Email a magic sign-in link (needs SMTP on the stack; use auth_admin_generate_link otherwise)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          email: {
+            type: 'string',
+            description: 'User email address',
+          },
+          redirect_to: {
+            type: 'string',
+            description: 'URL the link redirects to after sign-in (must be in the allowed redirect URLs)',
+          },
+          should_create_user: {
+            type: 'boolean',
+            description: 'Create the user if it does not exist',
+            default: true,
+          },
+        },
+        required: ['email'],
+      },
+    },
+    {
+      name: 'auth_send_otp',
+      description: 'Send a one-time code by email or SMS',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          email: {
+            type: 'string',
+            description: 'Email address (give either email or phone)',
+          },
+          phone: {
+            type: 'string',
+            description: 'Phone number in E.164 format',
+          },
+          channel: {
+            type: 'string',
+            enum: ['sms', 'whatsapp'],
+            description: 'Delivery channel for phone codes',
+            default: 'sms',
+          },
+          should_create_user: {
+            type: 'boolean',
+            description: 'Create the user if it does not exist',
+            default: true,
+          },
+        },
+      },
+    },
+    {
+      name: 'auth_verify_otp',
+      description: 'Verify a one-time code or link token and sign in with the resulting session',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          email: {
+            type: 'string',
+            description: 'Email the code was sent to',
+          },
+          phone: {
+            type: 'string',
+            description: 'Phone number the code was sent to',
+          },
+          token: {
+            type: 'string',
+            description: 'The code from the email or SMS',
+          },
+          token_hash: {
+            type: 'string',
+            description: 'Hashed token from a link (e.g. hashed_token of auth_admin_generate_link), instead of email/phone and token',
+          },
+          type: {
+            type: 'string',
+            enum: ['email', 'magiclink', 'signup', 'invite', 'recovery', 'email_change', 'sms', 'phone_change'],
+            description: 'What the code was issued for',
+            default: 'email',
+          },
+          session_name: {
+            type: 'string',
+            description: 'Name to save the session under (default: the email)',
+          },
+        },
+      },
+    },
+    {
+      name: 'auth_list_sessions',
+      description: 'List saved login sessions of the current profile and which one is active',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+    },
+    {
+      name: 'auth_use_session',
+      description: 'Switch to a saved login session, refreshing its token if it has expired',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            description: 'Session name from auth_list_sessions',
+          },
+        },
+        required: ['name'],
+      },
+    },
+    {
+      name: 'auth_mint_token',
+      description: 'Sign a JWT with the stack\'s JWT secret (SUPABASE_JWT_SECRET) for any role, user and claims, e.g. scoped API keys or test-user tokens',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          role: {
+            type: 'string',
+            description: 'Postgres role claim (anon, authenticated, service_role or a custom role)',
+            default: 'authenticated',
+          },
+          sub: {
+            type: 'string',
+            description: 'Subject claim, usually the user ID returned by auth.uid()',
+          },
+          email: {
+            type: 'string',
+            description: 'Email claim',
+          },
+          aud: {
+            type: 'string',
+            description: 'Audience claim (default: "authenticated" for the authenticated role)',
+          },
+          claims: {
+            type: 'object',
+            description: 'Additional claims such as app_metadata or user_metadata',
+            additionalProperties: true,
+          },
+          expires_in: {
+            type: 'number',
+            description: 'Lifetime in seconds; 0 mints a token without expiry',
+            default: 3600,
+            minimum: 0,
+          },
+        },
+      },
+    },
+    {
+      name: 'auth_inspect_token',
+      description: 'Decode the current session\'s access token or a given JWT without returning it: role, aal, claims, metadata, times, signature check and whether PostgREST accepts it',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          token: {
+            type: 'string',
+            description: 'JWT to inspect (default: the signed-in session\'s access token)',
+          },
+          check_postgrest: {
+            type: 'boolean',
+            description: 'Send the token to PostgREST to see whether it is accepted',
+            default: true,
+          },
+        },
+      },
+    },
+    {
+      name: 'auth_list_identities',
+      description: 'List the identities (email, phone, OAuth and SSO providers) linked to the signed-in user',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+    },
+    {
+      name: 'auth_link_identity',
+      description: 'Start linking an OAuth provider to the signed-in user; returns the URL to open in a browser (needs GOTRUE_SECURITY_MANUAL_LINKING_ENABLED)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          provider: {
+            type: 'string',
+            description: 'OAuth provider, e.g. github, google, azure or keycloak',
+          },
+          redirect_to: {
+            type: 'string',
+            description: 'URL the browser returns to after linking (must be in the allowed redirect URLs)',
+          },
+          scopes: {
+            type: 'string',
+            description: 'Space-separated extra scopes to request from the provider',
+          },
+        },
+        required: ['provider'],
+      },
+    },
+    {
+      name: 'auth_unlink_identity',
+      description: 'Unlink an identity from the signed-in user so it can no longer be used to sign in (the last identity cannot be unlinked)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          identity_id: {
+            type: 'string',
+            description: 'Identity ID from auth_list_identities',
+          },
+          provider: {
+            type: 'string',
+            description: 'Provider to unlink, when the user has a single identity for it (instead of identity_id)',
+          },
+        },
+      },
+    },
+    {
+      name: 'auth_mfa_enroll',
+      description: 'Enroll a TOTP factor for the signed-in user; returns the QR code and secret for an authenticator app',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          friendly_name: {
+            type: 'string',
+            description: 'Name that tells the user\'s factors apart (must be unique per user)',
+          },
+          issuer: {
+            type: 'string',
+            description: 'Issuer shown in the authenticator app (default: the site URL)',
+          },
+        },
+      },
+    },
+    {
+      name: 'auth_mfa_challenge',
+      description: 'Create a challenge for a factor of the signed-in user, to be answered with auth_mfa_verify',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          factor_id: {
+            type: 'string',
+            description: 'Factor ID from auth_mfa_enroll or auth_mfa_list_factors',
+          },
+        },
+        required: ['factor_id'],
+      },
+    },
+    {
+      name: 'auth_mfa_verify',
+      description: 'Verify a code for a factor, which activates a newly enrolled factor and raises the session to aal2',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          factor_id: {
+            type: 'string',
+            description: 'Factor ID',
+          },
+          code: {
+            type: 'string',
+            description: 'Current code from the authenticator app',
+          },
+          challenge_id: {
+            type: 'string',
+            description: 'Challenge ID from auth_mfa_challenge (default: create one and verify it in one step)',
+          },
+        },
+        required: ['factor_id', 'code'],
+      },
+    },
+    {
+      name: 'auth_mfa_list_factors',
+      description: 'List the signed-in user\'s MFA factors and the session\'s assurance level (aal1/aal2)',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+    },
   ];
 }
 
+export function registerAuthTools(registry: ToolRegistry): void {
+  registry.registerModule({
+    category: 'auth',
+    tools: getAuthTools(),
+    handler: handleAuthTool,
+    safety: {
+      auth_login: 'write',
+      auth_signup: 'write',
+      auth_get_user: 'read',
+      auth_get_settings: 'read',
+      auth_logout: 'write',
+      auth_send_magic_link: 'write',
+      auth_send_otp: 'write',
+      auth_verify_otp: 'write',
+      auth_list_sessions: 'read',
+      auth_use_session: 'write',
+      // Can issue non-expiring service_role tokens, a full-access credential
+      auth_mint_token: 'destructive',
+      auth_inspect_token: 'read',
+      auth_list_identities: 'read',
+      auth_link_identity: 'write',
+      // Removes a way to sign in
+      auth_unlink_identity: 'destructive',
+      auth_mfa_enroll: 'write',
+      auth_mfa_challenge: 'write',
+      auth_mfa_verify: 'write',
+      auth_mfa_list_factors: 'read',
+    },
+  });
+}
+
 export async function handleAuthTool(
   supabaseClient: SupabaseClient,
   name: string,
@@ -83,6 +402,8 @@ export async function handleAuthTool(
         });
 
         if (error) {
+          const settings = await fetchAuthSettings(supabaseClient).catch(() => null);
+
           return {
             content: [
               {
@@ -92,20 +413,25 @@ export async function handleAuthTool(
                   error: error.message,
                   operation: 'signup',
                   troubleshooting: {
-                    email_confirmation_issues: [
-                      'SMTP not configured in Supabase project',
-                      'Email confirmation disabled in auth settings',
+                    common_issues: [
+                      'Sign-up is disabled on the stack (GOTRUE_DISABLE_SIGNUP)',
+                      'SMTP is not configured, so the confirmation email cannot be sent (GOTRUE_SMTP_*)',
                       'Invalid email address format',
+                      'Password is shorter than GOTRUE_PASSWORD_MIN_LENGTH',
                     ],
                     solutions: [
-                      'Check Supabase Dashboard > Authentication > Settings > SMTP Settings',
-                      'Disable email confirmation for testing: "Enable email confirmations" = OFF',
+                      'Run auth_get_settings to see the stack\'s sign-up settings',
+                      'Create the user with auth_admin_create_user and email_confirm: true to skip the confirmation email',
                       'Use a valid, reachable email address',
-                      'Check spam folder for confirmation emails',
                     ],
-                    quick_test_setup: 'Disable "Enable email confirmations" in Supabase Auth settings for immediate testing',
                   },
-                  auth_settings_path: 'Supabase Dashboard > Authentication > Settings > Email Auth',
+                  ...(settings ? {
+                    auth_settings: {
+                      signup_disabled: settings.signup_disabled,
+                      email_enabled: settings.email_enabled,
+                      mailer_autoconfirm: settings.mailer_autoconfirm,
+                    },
+                  } : {}),
                 }, null, 2),
               },
             ],
@@ -150,11 +476,12 @@ export async function handleAuthTool(
     }
 
     case 'auth_login': {
-      const { email, password } = args;
+      const { email, password, session_name } = args;
+      supabaseClient.nameNextSession(session_name || null);
       const { data, error } = await client.auth.signInWithPassword({
         email,
         password,
-      });
+      }).finally(() => supabaseClient.nameNextSession(null));
 
       if (error) {
         return {
@@ -174,7 +501,8 @@ export async function handleAuthTool(
                   ],
                   test_with_existing_user: 'Try with a user account you know exists in Supabase Auth',
                   create_test_user: 'Use auth_signup to create a test user first',
-                  check_auth_settings: 'Verify auth settings in Supabase Dashboard > Authentication > Settings',
+                  check_auth_settings: 'Run auth_get_settings to see which sign-in methods are enabled',
+                  confirm_existing_user: 'Confirm the email with auth_admin_update_user (email_confirm: true)',
                 },
                 suggested_test_flow: [
                   '1. Create test user with auth_signup',
@@ -199,8 +527,10 @@ export async function handleAuthTool(
                 created_at: data.user?.created_at,
               },
               session: {
+                name: supabaseClient.listSessions().find((session) => session.active)?.name || null,
                 access_token: data.session?.access_token ? 'present' : 'missing',
                 expires_at: data.session?.expires_at,
+                persisted: supabaseClient.getSessionStore().isPersistent(),
               },
             }, null, 2),
           },
@@ -289,6 +619,44 @@ export async function handleAuthTool(
       }
     }
 
+    case 'auth_get_settings': {
+      try {
+        const settings = await fetchAuthSettings(supabaseClient);
+        const findings = auditAuthSettings(settings);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                operation: 'get_settings',
+                settings,
+                findings,
+                ...(findings.some((finding) => finding.severity === 'warning')
+                  ? { warning: 'Some settings let strangers create accounts or sign in unexpectedly; see findings' }
+                  : {}),
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: error instanceof Error ? error.message : String(error),
+                operation: 'get_settings',
+                suggestion: 'Check that GoTrue is reachable through the gateway with connection_test',
+              }, null, 2),
+            },
+          ],
+        };
+      }
+    }
+
     case 'auth_logout': {
       try {
         const { error } = await client.auth.signOut();
@@ -324,7 +692,7 @@ export async function handleAuthTool(
                 success: true,
                 operation: 'logout',
                 message: 'Logged out successfully',
-                note: 'Session has been terminated',
+                note: 'Session has been terminated and removed from the saved sessions',
               }, null, 2),
             },
           ],
@@ -345,6 +713,712 @@ export async function handleAuthTool(
       }
     }
 
+    case 'auth_send_magic_link':
+    case 'auth_send_otp': {
+      const { email, phone, redirect_to, channel = 'sms', should_create_user = true } = args;
+      const operation = name === 'auth_send_magic_link' ? 'send_magic_link' : 'send_otp';
+
+      if (!email && !phone) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Either email or phone is required',
+                operation,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      const { error } = await client.auth.signInWithOtp(email
+        ? { email, options: { emailRedirectTo: redirect_to, shouldCreateUser: should_create_user } }
+        : { phone, options: { channel, shouldCreateUser: should_create_user } });
+
+      if (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: error.message,
+                operation,
+                troubleshooting: email ? {
+                  common_issues: [
+                    'SMTP is not configured on the stack (GOTRUE_SMTP_* settings)',
+                    'Email rate limit reached',
+                    'should_create_user is false and the user does not exist',
+                    'redirect_to is not in the allowed redirect URLs (GOTRUE_URI_ALLOW_LIST)',
+                  ],
+                  without_smtp: 'Use auth_admin_generate_link to get the link and code without sending anything',
+                } : {
+                  common_issues: [
+                    'No SMS provider is configured (GOTRUE_SMS_* settings) or phone sign-in is disabled',
+                    'SMS rate limit reached',
+                    'should_create_user is false and the user does not exist',
+                  ],
+                },
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              operation,
+              sent_to: email || phone,
+              channel: email ? 'email' : channel,
+              message: email ? 'Check the inbox for the link or code' : 'Check the phone for the code',
+              note: 'Finish sign-in with auth_verify_otp',
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'auth_verify_otp': {
+      const { email, phone, token, token_hash, type = 'email', session_name } = args;
+
+      if (!token_hash && (!token || (!email && !phone))) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Give token_hash, or token together with email or phone',
+                operation: 'verify_otp',
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      supabaseClient.nameNextSession(session_name || null);
+      const { data, error } = await client.auth.verifyOtp(
+        token_hash ? { token_hash, type } : email ? { email, token, type } : { phone, token, type }
+      ).finally(() => supabaseClient.nameNextSession(null));
+
+      if (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: error.message,
+                operation: 'verify_otp',
+                troubleshooting: {
+                  common_issues: [
+                    'The code expired or was already used',
+                    `type does not match how the code was issued (got '${type}')`,
+                    'A newer code was requested, which invalidates older ones',
+                  ],
+                },
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              operation: 'verify_otp',
+              user: data.user ? {
+                id: data.user.id,
+                email: data.user.email,
+                phone: data.user.phone,
+              } : null,
+              session: data.session ? {
+                name: supabaseClient.listSessions().find((session) => session.active)?.name || null,
+                access_token: 'present',
+                expires_at: data.session.expires_at,
+              } : null,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'auth_list_sessions': {
+      const sessions = supabaseClient.listSessions();
+      const store = supabaseClient.getSessionStore();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              operation: 'list_sessions',
+              profile: supabaseClient.getProfileName(),
+              active_session: sessions.find((session) => session.active)?.name || null,
+              sessions,
+              count: sessions.length,
+              persisted: store.isPersistent(),
+              store_file: store.isPersistent() ? store.getFilePath() : null,
+              ...(store.isPrivate()
+                ? { note: 'Sessions of this HTTP client are kept in memory and visible to it only; set MCP_HTTP_SHARED_SESSIONS=true to share the persistent store between clients' }
+                : store.isPersistent() ? {} : { note: 'Sessions are kept in memory only; set MCP_SESSION_STORE_KEY to persist them across restarts' }),
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'auth_use_session': {
+      const { name: sessionName } = args;
+
+      try {
+        const session = await supabaseClient.useSession(sessionName);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                operation: 'use_session',
+                session: sessionName,
+                user: {
+                  id: session.user.id,
+                  email: session.user.email,
+                },
+                expires_at: session.expires_at ? new Date(session.expires_at * 1000).toISOString() : null,
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: error instanceof Error ? error.message : String(error),
+                operation: 'use_session',
+                suggestion: 'If the refresh token was revoked or expired, sign in again with auth_login',
+              }, null, 2),
+            },
+          ],
+        };
+      }
+    }
+
+    case 'auth_mint_token': {
+      const { role = 'authenticated', sub, email, aud, claims, expires_in = 3600 } = args;
+      const { jwtSecret } = supabaseClient.getConfig();
+
+      if (!jwtSecret) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'No JWT secret configured',
+                operation: 'mint_token',
+                suggestion: 'Set SUPABASE_JWT_SECRET (or jwtSecret in the profile) to the JWT_SECRET of your self-hosted stack',
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      const minted = mintSupabaseToken(jwtSecret, { role, sub, email, aud, claims, expiresIn: expires_in });
+      const warnings = [
+        role === 'service_role' ? 'service_role tokens bypass Row Level Security' : '',
+        expires_in === 0 ? 'This token never expires; rotate the JWT secret to revoke it' : '',
+      ].filter(Boolean);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              operation: 'mint_token',
+              token: minted.token,
+              claims: minted.claims,
+              expires_at: minted.claims.exp ? new Date(minted.claims.exp * 1000).toISOString() : null,
+              note: 'Send it as both the apikey and the Authorization: Bearer header; PostgREST applies the role claim and RLS sees sub as auth.uid()',
+              ...(warnings.length > 0 ? { warning: warnings.join('; ') } : {}),
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'auth_inspect_token': {
+      const { check_postgrest = true } = args;
+      const config = supabaseClient.getConfig();
+      const token: string | undefined = args.token || (await client.auth.getSession()).data.session?.access_token;
+
+      if (!token) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'No token given and no signed-in session',
+                operation: 'inspect_token',
+                suggestion: 'Pass token, or sign in with auth_login or auth_use_session first',
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      const decoded = decodeJwt(token);
+      if (!decoded) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: 'Not a JWT',
+                operation: 'inspect_token',
+                note: 'Opaque keys such as sb_publishable_/sb_secret_ keys and refresh tokens cannot be decoded',
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      const { role, aal, amr, sub, email, phone, session_id, is_anonymous, aud, iss, iat, nbf, exp, app_metadata, user_metadata, ...otherClaims } = decoded.claims;
+      const verification = config.jwtSecret ? verifyJwt(token, config.jwtSecret) : null;
+      // verifyJwt checks the signature before the times, so a time error means the signature is fine
+      const signatureValid = verification
+        ? verification.valid || /^(Expired|Not valid before)/.test(verification.error || '')
+        : null;
+      const now = Math.floor(Date.now() / 1000);
+      const toIso = (seconds: unknown) => typeof seconds === 'number' ? new Date(seconds * 1000).toISOString() : null;
+
+      let postgrest: Record<string, any> | null = null;
+      if (check_postgrest) {
+        try {
+          const response = await resilientFetch(`${config.url}/rest/v1/`, {
+            headers: { apikey: config.anonKey, Authorization: `Bearer ${token}` },
+          });
+          const body = response.ok ? null : await response.json().catch(() => null);
+          postgrest = {
+            accepted: response.ok,
+            http_status: response.status,
+            ...(body ? { error: body.message || body.msg || null, code: body.code || null } : {}),
+          };
+        } catch (error) {
+          postgrest = { accepted: null, error: error instanceof Error ? error.message : String(error) };
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              operation: 'inspect_token',
+              source: args.token ? 'argument' : 'session',
+              header: decoded.header,
+              role: role ?? null,
+              aal: aal ?? null,
+              amr: amr ?? [],
+              subject: sub ?? null,
+              email: email || null,
+              phone: phone || null,
+              session_id: session_id ?? null,
+              is_anonymous: is_anonymous ?? false,
+              audience: aud ?? null,
+              issuer: iss ?? null,
+              app_metadata: app_metadata ?? null,
+              user_metadata: user_metadata ?? null,
+              other_claims: otherClaims,
+              issued_at: toIso(iat),
+              not_before: toIso(nbf),
+              expires_at: toIso(exp),
+              expires_in_seconds: typeof exp === 'number' ? exp - now : null,
+              expired: typeof exp === 'number' && exp <= now,
+              signature_valid: signatureValid,
+              ...(verification && !verification.valid ? { verification_error: verification.error } : {}),
+              postgrest,
+              ...(verification ? {} : { note: 'Set SUPABASE_JWT_SECRET to check the signature' }),
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'auth_list_identities': {
+      const { data, error } = await client.auth.getUserIdentities();
+
+      if (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: error.message,
+                operation: 'list_identities',
+                suggestion: 'Sign in with auth_login or auth_use_session first',
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              operation: 'list_identities',
+              identities: data.identities.map((identity) => ({
+                identity_id: identity.identity_id,
+                provider: identity.provider,
+                provider_user_id: identity.id,
+                email: identity.identity_data?.email ?? null,
+                created_at: identity.created_at ?? null,
+                last_sign_in_at: identity.last_sign_in_at ?? null,
+              })),
+              count: data.identities.length,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'auth_link_identity': {
+      const { provider, redirect_to, scopes } = args;
+      const { data, error } = await client.auth.linkIdentity({
+        provider: provider as Provider,
+        options: { redirectTo: redirect_to, scopes, skipBrowserRedirect: true },
+      });
+
+      if (error || !data.url) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: error?.message || 'GoTrue returned no authorization URL',
+                operation: 'link_identity',
+                provider,
+                troubleshooting: {
+                  common_issues: [
+                    'No signed-in user; sign in with auth_login or auth_use_session first',
+                    'Manual linking is disabled (GOTRUE_SECURITY_MANUAL_LINKING_ENABLED)',
+                    `The ${provider} provider is not enabled (GOTRUE_EXTERNAL_${String(provider).toUpperCase()}_ENABLED); auth_get_settings lists the enabled ones`,
+                  ],
+                },
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              operation: 'link_identity',
+              provider,
+              url: data.url,
+              note: 'Open the URL in a browser where the provider account is signed in; afterwards auth_list_identities shows the new identity',
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'auth_unlink_identity': {
+      const { identity_id, provider } = args;
+      const { data, error } = await client.auth.getUserIdentities();
+
+      if (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: error.message,
+                operation: 'unlink_identity',
+                suggestion: 'Sign in with auth_login or auth_use_session first',
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      const matches = data.identities.filter((identity) =>
+        identity_id ? identity.identity_id === identity_id : identity.provider === provider);
+      if (matches.length !== 1) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: !identity_id && !provider
+                  ? 'Give identity_id or provider'
+                  : matches.length === 0
+                    ? `No identity ${identity_id || `for provider ${provider}`} on this user`
+                    : `The user has ${matches.length} ${provider} identities; pass identity_id`,
+                operation: 'unlink_identity',
+                identities: data.identities.map((identity) => ({ identity_id: identity.identity_id, provider: identity.provider })),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      const { error: unlinkError } = await client.auth.unlinkIdentity(matches[0]);
+
+      if (unlinkError) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: unlinkError.message,
+                operation: 'unlink_identity',
+                identity_id: matches[0].identity_id,
+                troubleshooting: {
+                  common_issues: [
+                    'It is the user\'s only identity, which GoTrue refuses to unlink',
+                    'Manual linking is disabled (GOTRUE_SECURITY_MANUAL_LINKING_ENABLED), which also disables unlinking',
+                  ],
+                },
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              operation: 'unlink_identity',
+              identity_id: matches[0].identity_id,
+              provider: matches[0].provider,
+              count: 1,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'auth_mfa_enroll': {
+      const { friendly_name, issuer } = args;
+      const { data, error } = await client.auth.mfa.enroll({ factorType: 'totp', friendlyName: friendly_name, issuer });
+
+      if (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: error.message,
+                operation: 'mfa_enroll',
+                troubleshooting: {
+                  common_issues: [
+                    'No signed-in user; sign in with auth_login or auth_use_session first',
+                    'friendly_name is already used by another factor of this user',
+                    'TOTP enrollment is disabled on the stack (GOTRUE_MFA_TOTP_ENROLL_ENABLED)',
+                    'The user reached the maximum number of factors (GOTRUE_MFA_MAX_ENROLLED_FACTORS)',
+                  ],
+                },
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              operation: 'mfa_enroll',
+              factor_id: data.id,
+              type: data.type,
+              friendly_name: data.friendly_name ?? friendly_name ?? null,
+              qr_code: data.totp.qr_code,
+              secret: data.totp.secret,
+              uri: data.totp.uri,
+              note: 'Scan the QR code (or enter the secret) in an authenticator app, then confirm with auth_mfa_verify; the factor stays unverified until then',
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'auth_mfa_challenge': {
+      const { factor_id } = args;
+      const { data, error } = await client.auth.mfa.challenge({ factorId: factor_id });
+
+      if (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: error.message,
+                operation: 'mfa_challenge',
+                factor_id,
+                suggestion: 'Check the factor ID with auth_mfa_list_factors and that a user is signed in',
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              operation: 'mfa_challenge',
+              factor_id,
+              challenge_id: data.id,
+              expires_at: new Date(data.expires_at * 1000).toISOString(),
+              note: 'Answer with auth_mfa_verify before the challenge expires',
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'auth_mfa_verify': {
+      const { factor_id, code, challenge_id } = args;
+      const { data, error } = challenge_id
+        ? await client.auth.mfa.verify({ factorId: factor_id, challengeId: challenge_id, code })
+        : await client.auth.mfa.challengeAndVerify({ factorId: factor_id, code });
+
+      if (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: error.message,
+                operation: 'mfa_verify',
+                factor_id,
+                troubleshooting: {
+                  common_issues: [
+                    'The code is wrong or from an earlier 30-second window',
+                    'The server and authenticator clocks are out of sync',
+                    'The challenge expired; verify without challenge_id to create a fresh one',
+                  ],
+                },
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      // The upgraded session is saved under the current session name by the storage adapter
+      const { data: assurance } = await client.auth.mfa.getAuthenticatorAssuranceLevel();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              operation: 'mfa_verify',
+              factor_id,
+              user: {
+                id: data.user.id,
+                email: data.user.email,
+              },
+              assurance_level: assurance?.currentLevel ?? 'aal2',
+              expires_at: data.expires_in ? new Date(Date.now() + data.expires_in * 1000).toISOString() : null,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'auth_mfa_list_factors': {
+      const { data, error } = await client.auth.mfa.listFactors();
+
+      if (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                error: error.message,
+                operation: 'mfa_list_factors',
+                suggestion: 'Sign in with auth_login or auth_use_session first',
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      const { data: assurance } = await client.auth.mfa.getAuthenticatorAssuranceLevel();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              operation: 'mfa_list_factors',
+              factors: data.all.map((factor) => ({
+                id: factor.id,
+                type: factor.factor_type,
+                friendly_name: factor.friendly_name ?? null,
+                status: factor.status,
+                created_at: factor.created_at,
+              })),
+              count: data.all.length,
+              assurance_level: {
+                current: assurance?.currentLevel ?? null,
+                next: assurance?.nextLevel ?? null,
+                methods: assurance?.currentAuthenticationMethods ?? [],
+              },
+              ...(assurance && assurance.currentLevel !== assurance.nextLevel
+                ? { note: `The session can be raised to ${assurance.nextLevel} with auth_mfa_verify` }
+                : {}),
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
     default:
       throw new Error(`Unknown auth tool: ${name}`);
   }
@@ -1,20 +1,78 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { SupabaseClient } from '../supabase-client.js';
+import { ToolRegistry } from '../tool-registry.js';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { HEALTH_SERVICES, runHealthCheck } from '../health-check.js';
+import { getHttpClient } from '../http-client.js';
 
 export function getConnectionTools(): Tool[] {
   return [
     {
       name: 'connection_test',
-      description: 'Test connection to Supabase database and get basic info',
+      description: 'Check the health of every service in the stack (REST, Auth, Storage, Realtime, Functions, pg-meta, Kong, Postgres) with latency and version, and detect key misconfigurations',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          services: {
+            type: 'array',
+            description: 'Services to probe (default: all)',
+            items: {
+              type: 'string',
+              enum: HEALTH_SERVICES,
+            },
+          },
+          timeout_ms: {
+            type: 'number',
+            description: 'Timeout per probe in milliseconds (default: 5000)',
+            minimum: 100,
+            default: 5000,
+          },
+          check_misconfigurations: {
+            type: 'boolean',
+            description: 'Check keys and admin endpoints for misconfigurations (default: true)',
+            default: true,
+          },
+        },
+      },
+    },
+    {
+      name: 'connection_list_profiles',
+      description: 'List configured Supabase connection profiles and which one is active',
       inputSchema: {
         type: 'object',
         properties: {},
       },
     },
+    {
+      name: 'connection_switch_profile',
+      description: 'Switch the active connection profile used by subsequent tool calls',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            description: 'Name of the profile to activate',
+          },
+        },
+        required: ['name'],
+      },
+    },
   ];
 }
 
+export function registerConnectionTools(registry: ToolRegistry): void {
+  registry.registerModule({
+    category: 'connection',
+    tools: getConnectionTools(),
+    handler: handleConnectionTool,
+    safety: {
+      connection_test: 'read',
+      connection_list_profiles: 'read',
+      connection_switch_profile: 'read',
+    },
+  });
+}
+
 export async function handleConnectionTool(
   supabaseClient: SupabaseClient,
   name: string,
@@ -22,12 +80,26 @@ export async function handleConnectionTool(
 ): Promise<CallToolResult> {
   switch (name) {
     case 'connection_test': {
-      const testResult = await supabaseClient.testConnection();
-      const status = supabaseClient.getConnectionStatus();
-      
+      const { services, timeout_ms = 5000, check_misconfigurations = true } = args;
+      const report = await runHealthCheck(supabaseClient, {
+        services,
+        timeoutMs: timeout_ms,
+        skipMisconfigurationChecks: !check_misconfigurations,
+      });
+      const rest = report.services.find((service) => service.service === 'rest');
+
       const result = {
-        connection: testResult,
-        status: status,
+        success: true,
+        operation: 'health_check',
+        healthy: report.healthy,
+        // Kept for clients that read the original single-probe result
+        connection: rest
+          ? { connected: rest.status === 'ok', message: rest.error || 'Connection successful' }
+          : undefined,
+        services: report.services,
+        misconfigurations: report.misconfigurations,
+        circuit_breakers: getHttpClient().getCircuitStates(),
+        status: supabaseClient.getConnectionStatus(),
         timestamp: new Date().toISOString()
       };
       
@@ -41,6 +113,64 @@ export async function handleConnectionTool(
       };
     }
 
+    case 'connection_list_profiles': {
+      const profiles = supabaseClient.listProfiles();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              operation: 'list_profiles',
+              active_profile: profiles.find((profile) => profile.active)?.name || null,
+              profiles,
+              count: profiles.length,
+              note: 'Pass "profile" to any tool to target another profile for a single call',
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'connection_switch_profile': {
+      const { name: profileName } = args;
+
+      if (!supabaseClient.hasProfile(profileName)) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: false,
+                operation: 'switch_profile',
+                error: `Unknown profile '${profileName}'`,
+                available_profiles: supabaseClient.listProfiles().map((profile) => profile.name),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      const previous = supabaseClient.getProfileName();
+      supabaseClient.switchProfile(profileName);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              operation: 'switch_profile',
+              previous_profile: previous,
+              active_profile: profileName,
+              status: supabaseClient.getConnectionStatus(),
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
     default:
       throw new Error(`Unknown connection tool: ${name}`);
   }
@@ -1,5 +1,7 @@
 import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { SupabaseClient } from '../supabase-client.js';
+import { ToolRegistry } from '../tool-registry.js';
+import { applyFilters, FILTER_SYNTAX } from '../filters.js';
 
 export function getDatabaseTools(): Tool[] {
   return [
@@ -20,7 +22,7 @@ export function getDatabaseTools(): Tool[] {
           },
           filters: {
             type: 'object',
-            description: 'Filters to apply (key-value pairs)',
+            description: `Filters to apply. ${FILTER_SYNTAX}`,
             additionalProperties: true,
           },
           order: {
@@ -55,9 +57,11 @@ export function getDatabaseTools(): Tool[] {
             description: 'Table name to insert into',
           },
           data: {
-            type: 'object',
             description: 'Data to insert (single row as object or array of objects)',
-            additionalProperties: true,
+            anyOf: [
+              { type: 'object', additionalProperties: true },
+              { type: 'array', items: { type: 'object', additionalProperties: true } },
+            ],
           },
           returning: {
             type: 'string',
@@ -85,7 +89,7 @@ export function getDatabaseTools(): Tool[] {
           },
           filters: {
             type: 'object',
-            description: 'Filters to identify rows to update (key-value pairs)',
+            description: `Filters to identify rows to update. ${FILTER_SYNTAX}`,
             additionalProperties: true,
           },
           returning: {
@@ -109,7 +113,7 @@ export function getDatabaseTools(): Tool[] {
           },
           filters: {
             type: 'object',
-            description: 'Filters to identify rows to delete (key-value pairs)',
+            description: `Filters to identify rows to delete. ${FILTER_SYNTAX}`,
             additionalProperties: true,
           },
           returning: {
@@ -132,9 +136,11 @@ export function getDatabaseTools(): Tool[] {
             description: 'Table name to upsert into',
           },
           data: {
-            type: 'object',
             description: 'Data to upsert (single row as object or array of objects)',
-            additionalProperties: true,
+            anyOf: [
+              { type: 'object', additionalProperties: true },
+              { type: 'array', items: { type: 'object', additionalProperties: true } },
+            ],
           },
           on_conflict: {
             type: 'string',
@@ -161,7 +167,7 @@ export function getDatabaseTools(): Tool[] {
           },
           filters: {
             type: 'object',
-            description: 'Filters to apply (key-value pairs)',
+            description: `Filters to apply. ${FILTER_SYNTAX}`,
             additionalProperties: true,
           },
         },
@@ -171,6 +177,22 @@ export function getDatabaseTools(): Tool[] {
   ];
 }
 
+export function registerDatabaseTools(registry: ToolRegistry): void {
+  registry.registerModule({
+    category: 'database',
+    tools: getDatabaseTools(),
+    handler: handleDatabaseTool,
+    safety: {
+      db_select: 'read',
+      db_insert: 'write',
+      db_update: 'write',
+      db_delete: 'destructive',
+      db_upsert: 'write',
+      db_count: 'read',
+    },
+  });
+}
+
 export async function handleDatabaseTool(
   supabaseClient: SupabaseClient,
   name: string,
@@ -186,9 +208,7 @@ export async function handleDatabaseTool(
         let query = client.from(table).select(columns);
 
         // Apply filters
-        Object.entries(filters).forEach(([key, value]) => {
-          query = query.eq(key, value);
-        });
+        query = applyFilters(query, filters);
 
         // Apply ordering
         if (order) {
@@ -316,9 +336,7 @@ export async function handleDatabaseTool(
         let query = client.from(table).update(data);
 
         // Apply filters
-        Object.entries(filters).forEach(([key, value]) => {
-          query = query.eq(key, value);
-        });
+        query = applyFilters(query, filters);
 
         const { data: result, error } = await query.select(returning);
 
@@ -377,9 +395,7 @@ export async function handleDatabaseTool(
         let query = client.from(table).delete();
 
         // Apply filters
-        Object.entries(filters).forEach(([key, value]) => {
-          query = query.eq(key, value);
-        });
+        query = applyFilters(query, filters);
 
         const { data: result, error } = await query.select(returning);
 
@@ -494,9 +510,7 @@ export async function handleDatabaseTool(
         let query = client.from(table).select('*', { count: 'exact', head: true });
 
         // Apply filters
-        Object.entries(filters).forEach(([key, value]) => {
-          query = query.eq(key, value);
-        });
+        query = applyFilters(query, filters);
 
         const { count, error } = await query;
 
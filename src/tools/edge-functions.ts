@@ -1,10 +1,19 @@
 import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { SupabaseClient } from '../supabase-client.js';
+import { ToolRegistry } from '../tool-registry.js';
 import { NodeJSServerlessHandler } from '../nodejs-serverless-handler.js';
+import { resilientFetch } from '../http-client.js';
 
 // Global Node.js serverless handler instance for self-hosted Supabase
 const nodeJSHandler = new NodeJSServerlessHandler();
 
+/**
+ * Local serverless handler holding the functions deployed through these tools
+ */
+export function getLocalFunctionHandler(): NodeJSServerlessHandler {
+  return nodeJSHandler;
+}
+
 export function getEdgeFunctionTools(): Tool[] {
   return [
     {
@@ -81,6 +90,20 @@ export function getEdgeFunctionTools(): Tool[] {
   ];
 }
 
+export function registerEdgeFunctionTools(registry: ToolRegistry): void {
+  registry.registerModule({
+    category: 'edge',
+    tools: getEdgeFunctionTools(),
+    handler: handleEdgeFunctionTool,
+    safety: {
+      edge_invoke_function: 'write',
+      edge_list_functions: 'read',
+      edge_deploy_function: 'write',
+      edge_remove_function: 'destructive',
+    },
+  });
+}
+
 export async function handleEdgeFunctionTool(
   supabaseClient: SupabaseClient,
   name: string,
@@ -348,7 +371,7 @@ export async function handleEdgeFunctionTool(
         // Deploy via Supabase Management API
         const deployUrl = `https://api.supabase.com/v1/projects/${projectRef}/functions/deploy?slug=${function_name}`;
         
-        const response = await fetch(deployUrl, {
+        const response = await resilientFetch(deployUrl, {
           method: 'POST',
           headers: {
             'Authorization': `Bearer ${managementToken}`,
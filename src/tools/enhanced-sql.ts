@@ -1,5 +1,8 @@
 import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { SupabaseClient } from '../supabase-client.js';
+import { ToolRegistry } from '../tool-registry.js';
+import { describePostgresError, quoteIdentifier } from '../postgres.js';
+import { resilientFetch } from '../http-client.js';
 
 /**
  * Enhanced SQL Tools for Self-Hosted Supabase
@@ -54,8 +57,8 @@ export function getEnhancedSqlTools(): Tool[] {
           },
           params: {
             type: 'array',
-            description: 'Query parameters',
-            items: { type: 'string' },
+            description: 'Query parameters ($1, $2, ...; direct Postgres connection only)',
+            items: { type: ['string', 'number', 'boolean', 'null'] },
           },
         },
         required: ['query'],
@@ -78,6 +81,19 @@ export function getEnhancedSqlTools(): Tool[] {
   ];
 }
 
+export function registerEnhancedSqlTools(registry: ToolRegistry): void {
+  registry.registerModule({
+    category: 'sql',
+    tools: getEnhancedSqlTools(),
+    handler: handleEnhancedSqlTool,
+    safety: {
+      sql_aggregate_enhanced: 'read',
+      sql_execute_raw: 'destructive',
+      sql_analyze_table: 'read',
+    },
+  });
+}
+
 export async function handleEnhancedSqlTool(
   supabaseClient: SupabaseClient,
   name: string,
@@ -107,12 +123,16 @@ async function handleEnhancedAggregate(
 ): Promise<CallToolResult> {
   const { table, function: aggregateFunction, column, filters = {}, group_by } = args;
 
+  // Only the direct connection takes parameters; without it PostgREST
+  // aggregates the rows instead of running SQL built from the arguments
+  const postgres = supabaseClient.getPostgres();
+  if (!postgres) {
+    return await fallbackToClientAggregation(supabaseClient, args, new Error('No direct Postgres connection (DATABASE_URL) configured'));
+  }
+
   try {
-    // Build the aggregate query
-    let query = buildAggregateQuery(table, aggregateFunction, column, filters, group_by);
-    
-    // Try multiple approaches for SQL execution
-    const results = await executeWithFallbacks(supabaseClient, query);
+    const query = buildAggregateQuery(table, aggregateFunction, column, filters, group_by);
+    const result = await postgres.statement(query.text, query.params);
 
     return {
       content: [
@@ -126,9 +146,10 @@ async function handleEnhancedAggregate(
             column: column || 'all',
             filters,
             group_by,
-            results,
-            query_executed: query,
-            method: 'raw_sql_with_fallbacks',
+            results: { method: 'postgres', command: result.command, row_count: result.rowCount, data: result.rows },
+            query_executed: query.text,
+            params: query.params,
+            method: 'postgres',
             note: 'Enhanced aggregate bypassing Supabase client limitations',
           }, null, 2),
         },
@@ -141,7 +162,8 @@ async function handleEnhancedAggregate(
 }
 
 /**
- * Build aggregate SQL query
+ * Build an aggregate SQL statement. Identifiers are quoted and filter values
+ * bound as parameters, so no argument can change the shape of the statement.
  */
 function buildAggregateQuery(
   table: string,
@@ -149,7 +171,7 @@ function buildAggregateQuery(
   column?: string,
   filters: Record<string, any> = {},
   groupBy?: string
-): string {
+): { text: string; params: any[] } {
   let selectClause = '';
   
   switch (aggregateFunction.toLowerCase()) {
@@ -163,40 +185,37 @@ function buildAggregateQuery(
       if (!column) {
         throw new Error(`Column is required for ${aggregateFunction} function`);
       }
-      selectClause = `${aggregateFunction.toUpperCase()}(${column})`;
+      selectClause = `${aggregateFunction.toUpperCase()}(${quoteIdentifier(column)})`;
       break;
     default:
       throw new Error(`Unsupported aggregate function: ${aggregateFunction}`);
   }
 
   if (groupBy) {
-    selectClause = `${groupBy}, ${selectClause}`;
+    selectClause = `${quoteIdentifier(groupBy)}, ${selectClause}`;
   }
 
-  let query = `SELECT ${selectClause} FROM ${table}`;
+  let text = `SELECT ${selectClause} FROM ${quoteIdentifier(table)}`;
+  const params: any[] = [];
 
   // Add WHERE clause
   if (Object.keys(filters).length > 0) {
     const conditions = Object.entries(filters)
       .map(([key, value]) => {
-        if (typeof value === 'string') {
-          return `${key} = '${value.replace(/'/g, "''")}'`;
-        } else if (typeof value === 'number') {
-          return `${key} = ${value}`;
-        } else if (value === null) {
-          return `${key} IS NULL`;
-        } else {
-          return `${key} = '${String(value).replace(/'/g, "''")}'`;
+        if (value === null) {
+          return `${quoteIdentifier(key)} IS NULL`;
         }
+        params.push(value);
+        return `${quoteIdentifier(key)} = $${params.length}`;
       });
-    query += ` WHERE ${conditions.join(' AND ')}`;
+    text += ` WHERE ${conditions.join(' AND ')}`;
   }
 
   if (groupBy) {
-    query += ` GROUP BY ${groupBy}`;
+    text += ` GROUP BY ${quoteIdentifier(groupBy)}`;
   }
 
-  return query;
+  return { text, params };
 }
 
 /**
@@ -204,11 +223,21 @@ function buildAggregateQuery(
  */
 async function executeWithFallbacks(
   supabaseClient: SupabaseClient,
-  query: string
+  query: string,
+  params: any[] = []
 ): Promise<any> {
   const client = supabaseClient.getClient();
   const errors: string[] = [];
 
+  // Method 0: Run on the direct Postgres connection when configured. Its
+  // errors are final, since the API fallbacks could only guess at the query.
+  const postgres = supabaseClient.getPostgres();
+  if (postgres) {
+    const results = await postgres.query(query, params);
+    const last = results[results.length - 1];
+    return { method: 'postgres', command: last.command, row_count: last.rowCount, data: last.rows };
+  }
+
   // Method 1: Try rpc with a custom function (if exists)
   try {
     const { data, error } = await client.rpc('execute_sql', { sql_query: query });
@@ -285,11 +314,12 @@ async function executeWithFallbacks(
   // Method 4: Try direct HTTP approach to REST API
   try {
     const config = supabaseClient.getConfig();
-    const response = await fetch(`${config.url}/rest/v1/rpc/sql_query`, {
+    const token = supabaseClient.getImpersonation()?.token || config.anonKey;
+    const response = await resilientFetch(`${config.url}/rest/v1/rpc/sql_query`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.anonKey}`,
+        'Authorization': `Bearer ${token}`,
         'apikey': config.anonKey,
       },
       body: JSON.stringify({ query }),
@@ -566,7 +596,7 @@ async function handleRawSqlExecute(
   const { query, params = [] } = args;
 
   try {
-    const results = await executeWithFallbacks(supabaseClient, query);
+    const results = await executeWithFallbacks(supabaseClient, query, params);
     
     return {
       content: [
@@ -591,7 +621,7 @@ async function handleRawSqlExecute(
             success: false,
             operation: 'raw_sql_execute',
             query,
-            error: error instanceof Error ? error.message : String(error),
+            ...describePostgresError(error),
             troubleshooting: {
               common_issues: [
                 'SQL syntax error',
@@ -0,0 +1,33 @@
+import { ToolRegistry } from '../tool-registry.js';
+import { registerConnectionTools } from './connection.js';
+import { registerAuthTools } from './auth.js';
+import { registerAuthAdminTools } from './auth-admin.js';
+import { registerSchemaTools } from './schema.js';
+import { registerDatabaseTools } from './database.js';
+import { registerRealtimeTools } from './realtime.js';
+import { registerStorageTools } from './storage.js';
+import { registerSqlTools } from './sql.js';
+import { registerEnhancedSqlTools } from './enhanced-sql.js';
+import { registerEdgeFunctionTools } from './edge-functions.js';
+import { registerSecurityTools } from './security.js';
+import { registerAuditTools } from './audit.js';
+
+// Build the registry with every tool module, in listing order
+export function createToolRegistry(): ToolRegistry {
+  const registry = new ToolRegistry();
+
+  registerConnectionTools(registry);
+  registerAuthTools(registry);
+  registerAuthAdminTools(registry);
+  registerSchemaTools(registry);
+  registerDatabaseTools(registry);
+  registerRealtimeTools(registry);
+  registerStorageTools(registry);
+  registerSqlTools(registry);
+  registerEnhancedSqlTools(registry);
+  registerEdgeFunctionTools(registry);
+  registerSecurityTools(registry);
+  registerAuditTools(registry);
+
+  return registry;
+}
@@ -1,5 +1,6 @@
 import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { SupabaseClient } from '../supabase-client.js';
+import { ToolRegistry } from '../tool-registry.js';
 
 export function getRealtimeTools(): Tool[] {
   return [
@@ -67,6 +68,19 @@ export function getRealtimeTools(): Tool[] {
   ];
 }
 
+export function registerRealtimeTools(registry: ToolRegistry): void {
+  registry.registerModule({
+    category: 'realtime',
+    tools: getRealtimeTools(),
+    handler: handleRealtimeTool,
+    safety: {
+      realtime_subscribe: 'read',
+      realtime_channel_create: 'read',
+      realtime_broadcast: 'read',
+    },
+  });
+}
+
 export async function handleRealtimeTool(
   supabaseClient: SupabaseClient,
   name: string,
@@ -1,5 +1,7 @@
 import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { SupabaseClient } from '../supabase-client.js';
+import { ToolRegistry } from '../tool-registry.js';
+import { resilientFetch } from '../http-client.js';
 
 export function getSchemaTools(): Tool[] {
   return [
@@ -58,37 +60,43 @@ export function getSchemaTools(): Tool[] {
   ];
 }
 
+export function registerSchemaTools(registry: ToolRegistry): void {
+  registry.registerModule({
+    category: 'schema',
+    tools: getSchemaTools(),
+    handler: handleSchemaTool,
+    safety: {
+      schema_get_tables: 'read',
+      schema_get_columns: 'read',
+      schema_get_relations: 'read',
+    },
+  });
+}
+
 export async function handleSchemaTool(
   supabaseClient: SupabaseClient,
   name: string,
   args: any
 ): Promise<CallToolResult> {
   const client = supabaseClient.getAdminClient();
-  const config = supabaseClient.getConfig();
 
   switch (name) {
     case 'schema_get_tables': {
       const schema = args.schema || 'public';
       
       try {
-        // Try to query existing tables directly via REST API
-        const response = await fetch(`${config.url}/rest/v1/`, {
-          method: 'GET',
-          headers: {
-            'Authorization': `Bearer ${config.serviceRoleKey}`,
-            'Content-Type': 'application/json',
-            'apikey': config.serviceRoleKey,
-          }
-        });
-
-        if (!response.ok) {
+        // Parse the PostgREST OpenAPI description to get table names
+        let tables: TableSummary[];
+        try {
+          tables = tablesFromOpenApi(await fetchOpenApiSpec(supabaseClient, schema), schema);
+        } catch (error) {
           return {
             content: [
               {
                 type: 'text',
                 text: JSON.stringify({
                   success: false,
-                  error: `HTTP ${response.status}: ${response.statusText}`,
+                  error: error instanceof Error ? error.message : String(error),
                   schema,
                   suggestion: 'Check your Supabase URL and service role key',
                 }, null, 2),
@@ -97,25 +105,6 @@ export async function handleSchemaTool(
           };
         }
 
-        // Parse OpenAPI schema to get table names
-        const openApiSpec = await response.json();
-        const tables = [];
-        
-        if (openApiSpec.paths) {
-          for (const path in openApiSpec.paths) {
-            if (path.startsWith('/') && !path.includes('rpc')) {
-              const tableName = path.substring(1);
-              if (tableName && !tableName.includes('/')) {
-                tables.push({
-                  table_name: tableName,
-                  table_schema: schema,
-                  table_type: 'BASE TABLE'
-                });
-              }
-            }
-          }
-        }
-
         return {
           content: [
             {
@@ -173,44 +162,17 @@ export async function handleSchemaTool(
           };
         }
 
-        // Extract column information from sample data
-        const columns = [];
-        if (sampleData && sampleData.length > 0) {
-          const sampleRow = sampleData[0];
-          Object.keys(sampleRow).forEach((columnName, index) => {
-            const value = sampleRow[columnName];
-            let dataType = 'unknown';
-            
-            if (value === null) {
-              dataType = 'nullable';
-            } else if (typeof value === 'string') {
-              dataType = 'text';
-            } else if (typeof value === 'number') {
-              dataType = Number.isInteger(value) ? 'integer' : 'numeric';
-            } else if (typeof value === 'boolean') {
-              dataType = 'boolean';
-            } else if (value instanceof Date) {
-              dataType = 'timestamp';
-            }
-            
-            columns.push({
-              column_name: columnName,
-              data_type: dataType,
-              is_nullable: value === null ? 'YES' : 'UNKNOWN',
+        // Extract column information from sample data; for an empty table
+        // return a placeholder pointing at a select query instead
+        const columns = sampleData && sampleData.length > 0
+          ? inferColumns(sampleData[0])
+          : [{
+              column_name: 'No data available',
+              data_type: 'Run a select query to see columns',
+              is_nullable: 'UNKNOWN',
               column_default: null,
-              ordinal_position: index + 1
-            });
-          });
-        } else {
-          // Empty table, try to get schema from error or return basic info
-          columns.push({
-            column_name: 'No data available',
-            data_type: 'Run a select query to see columns',
-            is_nullable: 'UNKNOWN',
-            column_default: null,
-            ordinal_position: 1
-          });
-        }
+              ordinal_position: 1
+            }];
 
         return {
           content: [
@@ -288,4 +250,136 @@ export async function handleSchemaTool(
     default:
       throw new Error(`Unknown schema tool: ${name}`);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Fetch the PostgREST OpenAPI description of an exposed schema
+ */
+export async function fetchOpenApiSpec(supabaseClient: SupabaseClient, schema = 'public'): Promise<any> {
+  const config = supabaseClient.getConfig();
+  const response = await resilientFetch(`${config.url}/rest/v1/`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${config.serviceRoleKey}`,
+      'Content-Type': 'application/json',
+      'apikey': config.serviceRoleKey,
+      'Accept-Profile': schema,
+    }
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Call the postgres-meta API that self-hosted Supabase exposes under /pg
+ */
+export async function fetchPgMeta<T = any>(
+  supabaseClient: SupabaseClient,
+  path: string,
+  params: Record<string, string> = {}
+): Promise<T> {
+  const config = supabaseClient.getConfig();
+  const query = new URLSearchParams(params).toString();
+  const response = await resilientFetch(`${config.url}/pg${path}${query ? `?${query}` : ''}`, {
+    headers: {
+      'Authorization': `Bearer ${config.serviceRoleKey}`,
+      'apikey': config.serviceRoleKey,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`postgres-meta ${path} returned HTTP ${response.status}: ${response.statusText}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Table names listed as paths in a PostgREST OpenAPI description
+ */
+export function tablesFromOpenApi(openApiSpec: any, schema: string): TableSummary[] {
+  const tables: TableSummary[] = [];
+
+  for (const path in openApiSpec?.paths || {}) {
+    if (path.startsWith('/') && !path.includes('rpc')) {
+      const tableName = path.substring(1);
+      if (tableName && !tableName.includes('/')) {
+        tables.push({
+          table_name: tableName,
+          table_schema: schema,
+          table_type: 'BASE TABLE'
+        });
+      }
+    }
+  }
+
+  return tables;
+}
+
+/**
+ * Column definitions for a table from a PostgREST OpenAPI description
+ */
+export function columnsFromOpenApi(openApiSpec: any, tableName: string): ColumnSummary[] | null {
+  const definition = openApiSpec?.definitions?.[tableName];
+  if (!definition) {
+    return null;
+  }
+
+  const required: string[] = definition.required || [];
+  return Object.entries<any>(definition.properties || {}).map(([columnName, property], index) => ({
+    column_name: columnName,
+    data_type: property.format || property.type || 'unknown',
+    is_nullable: required.includes(columnName) ? 'NO' : 'YES',
+    column_default: property.default ?? null,
+    ordinal_position: index + 1,
+    ...(property.description ? { description: property.description } : {}),
+  }));
+}
+
+/**
+ * Guess column types from the values of a sample row
+ */
+export function inferColumns(sampleRow: Record<string, any>): ColumnSummary[] {
+  return Object.keys(sampleRow).map((columnName, index) => {
+    const value = sampleRow[columnName];
+    let dataType = 'unknown';
+
+    if (value === null) {
+      dataType = 'nullable';
+    } else if (typeof value === 'string') {
+      dataType = 'text';
+    } else if (typeof value === 'number') {
+      dataType = Number.isInteger(value) ? 'integer' : 'numeric';
+    } else if (typeof value === 'boolean') {
+      dataType = 'boolean';
+    } else if (value instanceof Date) {
+      dataType = 'timestamp';
+    }
+
+    return {
+      column_name: columnName,
+      data_type: dataType,
+      is_nullable: value === null ? 'YES' : 'UNKNOWN',
+      column_default: null,
+      ordinal_position: index + 1
+    };
+  });
+}
+
+// Type definitions
+export interface TableSummary {
+  table_name: string;
+  table_schema: string;
+  table_type: string;
+}
+
+export interface ColumnSummary {
+  column_name: string;
+  data_type: string;
+  is_nullable: string;
+  column_default: any;
+  ordinal_position: number;
+  description?: string;
+}
@@ -1,5 +1,14 @@
 import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { SupabaseClient } from '../supabase-client.js';
+import { ToolRegistry } from '../tool-registry.js';
+import {
+  describePostgresError,
+  PostgresConnection,
+  quoteIdentifier,
+  setLocalAuthContext,
+  singleStatement,
+  splitStatements,
+} from '../postgres.js';
 
 export function getSecurityTools(): Tool[] {
   return [
@@ -130,7 +139,7 @@ export function getSecurityTools(): Tool[] {
           },
           user_context: {
             type: 'object',
-            description: 'User context to simulate (user_id, role, etc.)',
+            description: 'User context to simulate: user_id, email, claims and role (anon, authenticated or service_role; default: authenticated)',
             additionalProperties: true,
           },
         },
@@ -140,20 +149,48 @@ export function getSecurityTools(): Tool[] {
   ];
 }
 
+export function registerSecurityTools(registry: ToolRegistry): void {
+  registry.registerModule({
+    category: 'security',
+    tools: getSecurityTools(),
+    handler: handleSecurityTool,
+    safety: {
+      security_enable_rls: 'write',
+      security_disable_rls: 'destructive',
+      security_create_policy: 'write',
+      security_drop_policy: 'destructive',
+      security_list_policies: 'read',
+      security_check_rls_status: 'read',
+      // Runs arbitrary SQL, even though the transaction is rolled back
+      security_test_policy: 'write',
+    },
+  });
+}
+
 export async function handleSecurityTool(
   supabaseClient: SupabaseClient,
   name: string,
   args: any
 ): Promise<CallToolResult> {
-  const client = supabaseClient.getAdminClient();
+  // Statements run for real on a direct connection; without one the SQL is
+  // returned for manual execution
+  const postgres = supabaseClient.getPostgres();
 
   switch (name) {
     case 'security_enable_rls': {
       const { table_name } = args;
       
       try {
-        // Directly provide SQL command for execution
-        const sql = `ALTER TABLE ${table_name} ENABLE ROW LEVEL SECURITY;`;
+        const sql = `ALTER TABLE ${quoteIdentifier(table_name)} ENABLE ROW LEVEL SECURITY;`;
+
+        if (postgres) {
+          return await executeSecuritySql(postgres, sql, { operation: 'enable_rls', table: table_name }, {
+            onSuccess: {
+              message: `Row Level Security enabled for table '${table_name}'`,
+              note: 'RLS blocks all API access to the table until you create policies with security_create_policy',
+            },
+          });
+        }
         
         return {
           content: [
@@ -202,7 +239,16 @@ export async function handleSecurityTool(
       const { table_name } = args;
       
       try {
-        const sql = `ALTER TABLE ${table_name} DISABLE ROW LEVEL SECURITY`;
+        const sql = `ALTER TABLE ${quoteIdentifier(table_name)} DISABLE ROW LEVEL SECURITY`;
+
+        if (postgres) {
+          return await executeSecuritySql(postgres, sql, { operation: 'disable_rls', table: table_name }, {
+            onSuccess: {
+              message: `Row Level Security disabled for table '${table_name}'`,
+              warning: 'Disabling RLS removes all row-level access controls. Data will be accessible based on column-level permissions only.',
+            },
+          });
+        }
         
         return {
           content: [
@@ -242,14 +288,14 @@ export async function handleSecurityTool(
       
       try {
         // Build the CREATE POLICY SQL statement
-        let sql = `CREATE POLICY "${policy_name}" ON ${table_name}`;
+        let sql = `CREATE POLICY ${quoteIdentifier(policy_name)} ON ${quoteIdentifier(table_name)}`;
         
         // Add command
         sql += `\n  FOR ${command}`;
         
         // Add roles
         if (roles.length > 0) {
-          sql += `\n  TO ${roles.join(', ')}`;
+          sql += `\n  TO ${roles.map(formatRole).join(', ')}`;
         }
         
         // Add USING clause
@@ -264,6 +310,21 @@ export async function handleSecurityTool(
         
         sql += ';';
 
+        if (postgres) {
+          return await executeSecuritySql(postgres, sql, {
+            operation: 'create_policy',
+            table: table_name,
+            policy: policy_name,
+            command: command,
+            roles: roles,
+          }, {
+            onSuccess: {
+              message: `Policy '${policy_name}' created on '${table_name}'`,
+              next_steps: ['Test the policy with security_test_policy'],
+            },
+          });
+        }
+
         return {
           content: [
             {
@@ -315,7 +376,16 @@ export async function handleSecurityTool(
       const { table_name, policy_name } = args;
       
       try {
-        const sql = `DROP POLICY IF EXISTS "${policy_name}" ON ${table_name};`;
+        const sql = `DROP POLICY IF EXISTS ${quoteIdentifier(policy_name)} ON ${quoteIdentifier(table_name)};`;
+
+        if (postgres) {
+          return await executeSecuritySql(postgres, sql, { operation: 'drop_policy', table: table_name, policy: policy_name }, {
+            onSuccess: {
+              message: `Policy '${policy_name}' dropped from '${table_name}'`,
+              warning: 'Dropping a policy may affect data access. Ensure other policies cover the access patterns.',
+            },
+          });
+        }
 
         return {
           content: [
@@ -359,6 +429,19 @@ export async function handleSecurityTool(
       const { table_name } = args;
       
       try {
+        if (postgres) {
+          const { schema, table } = splitTableName(table_name);
+          return await executeSecuritySql(
+            postgres,
+            `SELECT schemaname, tablename, policyname, permissive, roles, cmd, qual, with_check
+               FROM pg_policies
+              WHERE tablename = $1::text AND ($2::text IS NULL OR schemaname = $2::text)
+              ORDER BY policyname;`,
+            { operation: 'list_policies', table: table_name },
+            { params: [table, schema], rowsKey: 'policies' }
+          );
+        }
+
         // Query to get policies information
         const sql = `
           SELECT 
@@ -423,6 +506,21 @@ export async function handleSecurityTool(
       const { table_name } = args;
       
       try {
+        if (postgres) {
+          const { schema, table } = table_name ? splitTableName(table_name) : { schema: 'public', table: null };
+          return await executeSecuritySql(
+            postgres,
+            `SELECT t.schemaname, t.tablename, t.rowsecurity,
+                    (SELECT count(*)::int FROM pg_policies p
+                      WHERE p.schemaname = t.schemaname AND p.tablename = t.tablename) AS policy_count
+               FROM pg_tables t
+              WHERE ($1::text IS NULL OR t.tablename = $1::text) AND ($2::text IS NULL OR t.schemaname = $2::text)
+              ORDER BY t.schemaname, t.tablename;`,
+            { operation: 'check_rls_status', table: table_name || 'all_tables' },
+            { params: [table, schema], rowsKey: 'tables' }
+          );
+        }
+
         const sql = table_name 
           ? `SELECT schemaname, tablename, rowsecurity FROM pg_tables WHERE tablename = '${table_name}';`
           : `SELECT schemaname, tablename, rowsecurity FROM pg_tables WHERE schemaname = 'public' ORDER BY tablename;`;
@@ -472,6 +570,10 @@ export async function handleSecurityTool(
       const { table_name, test_query, user_context = {} } = args;
       
       try {
+        if (postgres) {
+          return await testPolicyWithPostgres(postgres, table_name, test_query, user_context);
+        }
+
         return {
           content: [
             {
@@ -532,4 +634,216 @@ export async function handleSecurityTool(
     default:
       throw new Error(`Unknown security tool: ${name}`);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Run a security statement on the direct connection and report the outcome
+ */
+async function executeSecuritySql(
+  postgres: PostgresConnection,
+  sql: string,
+  details: Record<string, any>,
+  options: { params?: any[]; rowsKey?: string; onSuccess?: Record<string, any> } = {}
+): Promise<CallToolResult> {
+  const { params = [], rowsKey, onSuccess = {} } = options;
+
+  try {
+    // Expressions are pasted into the DDL, so only ever run one statement
+    const result = await postgres.statement(sql, params);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            ...details,
+            ...onSuccess,
+            method: 'postgres',
+            ...(rowsKey
+              ? { [rowsKey]: result.rows, count: result.rows.length }
+              : { sql_executed: sql }),
+          }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: false,
+            ...details,
+            method: 'postgres',
+            sql_command: sql,
+            ...describePostgresError(error),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Run a query as a simulated user inside a transaction that is always
+ * rolled back, so even INSERT/UPDATE/DELETE probes leave no trace
+ */
+async function testPolicyWithPostgres(
+  postgres: PostgresConnection,
+  tableName: string,
+  testQuery: string,
+  userContext: Record<string, any>
+): Promise<CallToolResult> {
+  const role = userContext.role || 'authenticated';
+  if (!POLICY_TEST_ROLES.includes(role)) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: false,
+            operation: 'test_policy',
+            table: tableName,
+            error: `Cannot simulate role '${role}'; use one of ${POLICY_TEST_ROLES.join(', ')}`,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+  const claims = Object.fromEntries(
+    Object.entries({
+      ...(userContext.claims || {}),
+      sub: userContext.user_id || userContext.sub || userContext.claims?.sub,
+      email: userContext.email || userContext.claims?.email,
+      role,
+    }).filter(([, value]) => value !== undefined)
+  );
+
+  try {
+    const unsafe = findUnsafeTestQuery(testQuery);
+    if (unsafe) {
+      throw new Error(`test_query cannot run: ${unsafe}`);
+    }
+
+    // One statement only, so nothing after a `;` runs outside the rollback
+    const query = singleStatement(testQuery);
+    const result = await postgres.transaction(async (client) => {
+      await setLocalAuthContext(client, { role, claims });
+      return client.query(query);
+    }, { rollback: true });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            operation: 'test_policy',
+            table: tableName,
+            method: 'postgres',
+            executed_as: { role, claims },
+            command: result.command,
+            rows: result.rows,
+            row_count: result.rowCount,
+            note: 'Query ran with the simulated role and JWT claims in a transaction that was rolled back',
+          }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: false,
+            operation: 'test_policy',
+            table: tableName,
+            method: 'postgres',
+            executed_as: { role, claims },
+            ...describePostgresError(error),
+            ...(isPermissionError(error)
+              ? { note: 'The simulated user is not allowed to run this query; policies or grants block it' }
+              : {}),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Explain why a test query cannot run in the rolled-back transaction, if it
+ * cannot: it would end the transaction, change the role it runs as, or have
+ * effects that a rollback does not undo
+ */
+function findUnsafeTestQuery(sql: string): string | null {
+  // Only one statement ever runs; comments are gone, literals are kept
+  const statement = splitStatements(sql)[0] || '';
+
+  const keyword = statement.match(TRANSACTION_ESCAPE)?.[1];
+  if (keyword) {
+    return `${keyword.toUpperCase().replace(/\s+/g, ' ')} would escape the rolled-back transaction or the simulated role`;
+  }
+  if (ROLE_CONFIG_CALL.test(statement)) {
+    return 'set_config on the role would escape the simulated role';
+  }
+
+  const command = statement.match(OUTSIDE_TRANSACTION_STATEMENT)?.[1];
+  if (command) {
+    return `${command.toUpperCase()} has effects that rolling back does not undo`;
+  }
+  const call = statement.match(OUTSIDE_TRANSACTION_CALL)?.[1];
+  if (call) {
+    return `${call.toLowerCase()}() has effects that rolling back does not undo`;
+  }
+  return null;
+}
+
+// Roles a policy test may simulate; any other role could be a superuser
+const POLICY_TEST_ROLES = ['anon', 'authenticated', 'service_role'];
+
+// Transaction control, and SET/RESET/DISCARD, which can change the role
+const TRANSACTION_ESCAPE = /^(BEGIN|START\s+TRANSACTION|COMMIT|END|ROLLBACK|ABORT|SAVEPOINT|RELEASE|PREPARE\s+TRANSACTION|SET|RESET|DISCARD)\b/i;
+const ROLE_CONFIG_CALL = /set_config\s*\(\s*'(role|session_authorization)'/i;
+// Server files and programs, notifications, session state, and DO, whose
+// dynamic SQL could assemble any of the calls below
+const OUTSIDE_TRANSACTION_STATEMENT = /^(COPY|NOTIFY|LISTEN|UNLISTEN|LOAD|CHECKPOINT|VACUUM|PREPARE|EXECUTE|DEALLOCATE|DO)\b/i;
+// Sequences, other backends, server files, session locks and outgoing connections
+const OUTSIDE_TRANSACTION_CALL = new RegExp(
+  '(?<![\\w$])"?(' + [
+    'nextval', 'setval', 'pg_notify',
+    'pg_terminate_backend', 'pg_cancel_backend', 'pg_reload_conf', 'pg_rotate_logfile', 'pg_switch_wal',
+    'pg_create_restore_point', 'pg_promote',
+    'pg_advisory_lock', 'pg_advisory_lock_shared', 'pg_try_advisory_lock', 'pg_try_advisory_lock_shared',
+    'lo_import', 'lo_export', 'pg_file_write', 'pg_file_rename', 'pg_file_unlink',
+    'dblink\\w*', 'http(?:_\\w+)?',
+  ].join('|') + ')"?\\s*\\(',
+  'i'
+);
+
+// insufficient_privilege, or a WITH CHECK violation reported as one
+function isPermissionError(error: unknown): boolean {
+  return error instanceof Error && (error as any).code === '42501';
+}
+
+/**
+ * Split `schema.table` into its parts; the schema is null when omitted
+ */
+function splitTableName(tableName: string): { schema: string | null; table: string } {
+  const parts = tableName.split('.').map((part) => part.replace(/"/g, '').trim());
+  return parts.length > 1
+    ? { schema: parts[0], table: parts[1] }
+    : { schema: null, table: parts[0] };
+}
+
+/**
+ * Policy roles are identifiers, except for the PUBLIC pseudo-role and
+ * CURRENT_USER / SESSION_USER keywords
+ */
+function formatRole(role: string): string {
+  return ['public', 'current_user', 'session_user'].includes(role.toLowerCase())
+    ? role.toUpperCase()
+    : quoteIdentifier(role);
+}
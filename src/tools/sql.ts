@@ -1,12 +1,13 @@
 import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { SupabaseClient } from '../supabase-client.js';
-import { getEnhancedSqlTools, handleEnhancedSqlTool } from './enhanced-sql.js';
+import { ToolRegistry } from '../tool-registry.js';
+import { describePostgresError } from '../postgres.js';
 
 export function getSqlTools(): Tool[] {
   return [
     {
       name: 'sql_execute',
-      description: 'Execute raw SQL query (use with caution)',
+      description: 'Execute raw SQL query (use with caution). Runs directly on Postgres when DATABASE_URL is configured; otherwise SELECTs are translated to API calls and DDL is returned for manual execution',
       inputSchema: {
         type: 'object',
         properties: {
@@ -16,9 +17,9 @@ export function getSqlTools(): Tool[] {
           },
           params: {
             type: 'array',
-            description: 'Parameters for the query',
+            description: 'Parameters for the query ($1, $2, ...; direct Postgres connection only)',
             items: {
-              type: 'string',
+              type: ['string', 'number', 'boolean', 'null'],
             },
           },
         },
@@ -79,22 +80,73 @@ export function getSqlTools(): Tool[] {
   ];
 }
 
+export function registerSqlTools(registry: ToolRegistry): void {
+  registry.registerModule({
+    category: 'sql',
+    tools: getSqlTools(),
+    handler: handleSqlTool,
+    safety: {
+      sql_execute: 'destructive',
+      sql_call_rpc: 'write',
+      sql_aggregate: 'read',
+    },
+  });
+}
+
 export async function handleSqlTool(
   supabaseClient: SupabaseClient,
   name: string,
   args: any
 ): Promise<CallToolResult> {
-  // Check if this is an enhanced SQL tool
-  const enhancedToolNames = ['sql_aggregate_enhanced', 'sql_execute_raw', 'sql_analyze_table'];
-  if (enhancedToolNames.includes(name)) {
-    return await handleEnhancedSqlTool(supabaseClient, name, args);
-  }
-  
   const client = supabaseClient.getAdminClient();
 
   switch (name) {
     case 'sql_execute': {
       const { query, params = [] } = args;
+
+      // Run the statement for real when a database connection is configured
+      const postgres = supabaseClient.getPostgres();
+      if (postgres) {
+        try {
+          const results = await postgres.query(query, params);
+          const last = results[results.length - 1];
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  operation: 'sql_execute',
+                  method: 'postgres',
+                  command: last.command,
+                  data: last.rows,
+                  count: last.rowCount ?? last.rows.length,
+                  fields: last.fields,
+                  ...(results.length > 1 ? {
+                    statements: results.map((result) => ({ command: result.command, row_count: result.rowCount })),
+                  } : {}),
+                }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  operation: 'sql_execute',
+                  method: 'postgres',
+                  query: query.substring(0, 150),
+                  ...describePostgresError(error),
+                }, null, 2),
+              },
+            ],
+          };
+        }
+      }
       
       try {
         // Parse and validate query - expanded DDL support
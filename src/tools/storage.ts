@@ -1,5 +1,6 @@
 import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { SupabaseClient } from '../supabase-client.js';
+import { ToolRegistry } from '../tool-registry.js';
 
 export function getStorageTools(): Tool[] {
   return [
@@ -153,6 +154,24 @@ export function getStorageTools(): Tool[] {
   ];
 }
 
+export function registerStorageTools(registry: ToolRegistry): void {
+  registry.registerModule({
+    category: 'storage',
+    tools: getStorageTools(),
+    handler: handleStorageTool,
+    safety: {
+      storage_list_buckets: 'read',
+      storage_create_bucket: 'write',
+      storage_delete_bucket: 'destructive',
+      storage_list_files: 'read',
+      storage_upload_file: 'write',
+      storage_download_file: 'read',
+      storage_delete_file: 'destructive',
+      storage_get_public_url: 'read',
+    },
+  });
+}
+
 export async function handleStorageTool(
   supabaseClient: SupabaseClient,
   name: string,
@@ -0,0 +1,206 @@
+import { ErrorCode, McpError, Tool } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Tool Argument Validation
+ *
+ * Checks incoming arguments against a tool's `inputSchema` before the
+ * handler runs, so a missing `table` or a string `limit` is reported as a
+ * clear InvalidParams error instead of an opaque PostgREST failure.
+ * Supports the JSON Schema subset used by the tool definitions: type,
+ * required, properties, additionalProperties, items, enum, anyOf/oneOf,
+ * minimum/maximum, minLength/maxLength and default.
+ */
+export function validateArguments(
+  schema: Tool['inputSchema'],
+  args: Record<string, any>
+): { value: Record<string, any>; errors: ValidationError[] } {
+  const errors: ValidationError[] = [];
+  const value = validateValue(schema as JsonSchema, args, '', errors);
+  return { value, errors };
+}
+
+/**
+ * Validate arguments for a tool, returning them with defaults applied or
+ * throwing an InvalidParams error that lists every violation
+ */
+export function assertValidArguments(tool: Tool, args: Record<string, any>): Record<string, any> {
+  const { value, errors } = validateArguments(tool.inputSchema, args);
+
+  if (errors.length > 0) {
+    const summary = errors.map((error) => `${error.path || '(arguments)'}: ${error.message}`).join('; ');
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid arguments for tool '${tool.name}': ${summary}`,
+      { errors }
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Validate one value, collecting errors and returning it with defaults filled in
+ */
+function validateValue(schema: JsonSchema, value: any, path: string, errors: ValidationError[]): any {
+  if (schema.anyOf || schema.oneOf) {
+    const variants = (schema.anyOf || schema.oneOf)!;
+    const matching = variants
+      .map((variant) => {
+        const variantErrors: ValidationError[] = [];
+        const variantValue = validateValue(variant, value, path, variantErrors);
+        return { variantValue, variantErrors };
+      })
+      .filter(({ variantErrors }) => variantErrors.length === 0);
+
+    if (matching.length === 0) {
+      errors.push({ path, message: `does not match any allowed shape (${variants.map(describeType).join(' | ')})` });
+      return value;
+    }
+    value = matching[0].variantValue;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(type, value))) {
+      errors.push({ path, message: `expected ${types.join(' or ')}, got ${typeOf(value)}` });
+      return value;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((allowed) => allowed === value)) {
+    errors.push({ path, message: `must be one of ${schema.enum.map((allowed) => JSON.stringify(allowed)).join(', ')}` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    return value.map((item, index) => validateValue(schema.items!, item, `${path}[${index}]`, errors));
+  }
+
+  if (isPlainObject(value) && (schema.properties || schema.required || schema.additionalProperties !== undefined)) {
+    return validateObject(schema, value, path, errors);
+  }
+
+  return value;
+}
+
+function validateObject(
+  schema: JsonSchema,
+  value: Record<string, any>,
+  path: string,
+  errors: ValidationError[]
+): Record<string, any> {
+  const properties = schema.properties || {};
+  const result: Record<string, any> = { ...value };
+
+  for (const [key, propertySchema] of Object.entries(properties)) {
+    if (result[key] === undefined && propertySchema.default !== undefined) {
+      result[key] = structuredClone(propertySchema.default);
+    }
+  }
+
+  for (const key of schema.required || []) {
+    if (result[key] === undefined || result[key] === null) {
+      errors.push({ path: joinPath(path, key), message: 'is required' });
+    }
+  }
+
+  for (const [key, propertyValue] of Object.entries(result)) {
+    if (propertyValue === undefined) {
+      continue;
+    }
+
+    const propertyPath = joinPath(path, key);
+    if (properties[key]) {
+      result[key] = validateValue(properties[key], propertyValue, propertyPath, errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push({ path: propertyPath, message: 'is not an allowed property' });
+    } else if (isPlainObject(schema.additionalProperties)) {
+      result[key] = validateValue(schema.additionalProperties as JsonSchema, propertyValue, propertyPath, errors);
+    }
+  }
+
+  return result;
+}
+
+function matchesType(type: string, value: any): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function typeOf(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function describeType(schema: JsonSchema): string {
+  if (schema.type) {
+    return Array.isArray(schema.type) ? schema.type.join(' or ') : schema.type;
+  }
+  return 'schema';
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+// Type definitions
+export interface ValidationError {
+  path: string;
+  message: string;
+}
+
+interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: any[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  default?: any;
+  [keyword: string]: any;
+}
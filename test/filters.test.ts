@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyFilters, FilterableQuery } from '../src/filters.js';
+
+// Records the PostgREST calls a filter object compiles to
+function compile(filters: Record<string, unknown>): Array<[string, ...unknown[]]> {
+  const calls: Array<[string, ...unknown[]]> = [];
+  const query: FilterableQuery = {
+    filter(column, operator, value) {
+      calls.push(['filter', column, operator, value]);
+      return this;
+    },
+    or(filters) {
+      calls.push(['or', filters]);
+      return this;
+    },
+  };
+  applyFilters(query, filters);
+  return calls;
+}
+
+test('plain values mean equality and null means IS NULL', () => {
+  assert.deepEqual(compile({ status: 'active', deleted_at: null, published: true }), [
+    ['filter', 'status', 'eq', 'active'],
+    ['filter', 'deleted_at', 'is', 'null'],
+    ['filter', 'published', 'eq', 'true'],
+  ]);
+});
+
+test('operators on one column are combined with AND', () => {
+  assert.deepEqual(compile({ age: { gte: 18, lt: 65 }, email: { ilike: '*@example.com' } }), [
+    ['filter', 'age', 'gte', '18'],
+    ['filter', 'age', 'lt', '65'],
+    ['filter', 'email', 'ilike', '*@example.com'],
+  ]);
+});
+
+test('in, containment and negation render PostgREST operands', () => {
+  assert.deepEqual(compile({
+    role: { not: { in: ['admin', 'a,b'] } },
+    tags: { contains: ['a', 'b c'] },
+    meta: { contains: { plan: 'pro' } },
+    period: { rangeAdjacent: '[1,5)' },
+  }), [
+    ['filter', 'role', 'not.in', '(admin,"a,b")'],
+    ['filter', 'tags', 'cs', '{a,"b c"}'],
+    ['filter', 'meta', 'cs', '{"plan":"pro"}'],
+    ['filter', 'period', 'adj', '[1,5)'],
+  ]);
+});
+
+test('or groups nest and quote reserved characters in values', () => {
+  assert.deepEqual(compile({ or: [{ owner_id: 'u1' }, { public: true }] }), [
+    ['or', 'owner_id.eq.u1,public.eq.true'],
+  ]);
+  assert.deepEqual(compile({ or: [{ a: 1 }, { and: [{ b: 'x,y' }, { c: { is: null } }] }] }), [
+    ['or', 'a.eq.1,and(b.eq."x,y",c.is.null)'],
+  ]);
+  assert.deepEqual(compile({ or: [{ tags: { contains: ['a', 'b'] } }, { meta: { contains: { k: 'v' } } }] }), [
+    ['or', 'tags.cs.{a,b},meta.cs."{\\"k\\":\\"v\\"}"'],
+  ]);
+});
+
+test('top-level and groups flatten and not negates a filter object', () => {
+  assert.deepEqual(compile({ and: [{ a: 1 }, { b: 2 }] }), [
+    ['filter', 'a', 'eq', '1'],
+    ['filter', 'b', 'eq', '2'],
+  ]);
+  assert.deepEqual(compile({ not: { archived: true } }), [['filter', 'archived', 'not.eq', 'true']]);
+  assert.deepEqual(compile({ not: { a: 1, b: 2 } }), [['or', 'not.and(a.eq.1,b.eq.2)']]);
+});
+
+test('invalid filters are rejected with their path', () => {
+  const cases: Array<[Record<string, unknown>, RegExp]> = [
+    [{ a: { foo: 1 } }, /Unknown filter operator 'foo' in filters\.a/],
+    [{ a: [1, 2] }, /filters\.a is an array; use \{ "in": \[\.\.\.\] \}/],
+    [{ a: { in: 1 } }, /filters\.a\.in must be an array/],
+    [{ a: { gt: null } }, /filters\.a\.gt cannot be null/],
+    [{ a: { is: 'maybe' } }, /filters\.a\.is must be null, true, false or "unknown"/],
+    [{ a: { rangeGt: 1 } }, /filters\.a\.rangeGt must be a range literal/],
+    [{ a: {} }, /filters\.a has no operators/],
+    [{ or: [] }, /filters\.or must be a non-empty array/],
+    [{ or: [{ b: 1 }, 'x'] }, /filters\.or\[1\] must be an object/],
+  ];
+
+  for (const [filters, message] of cases) {
+    assert.throws(() => compile(filters), message);
+  }
+});
+
+test('column names holding filter syntax are rejected', () => {
+  assert.throws(() => compile({ or: [{ 'a.eq.1,id.gt': 0 }] }), /filters\.or\[0\]\.a\.eq\.1,id\.gt: column names cannot contain/);
+  assert.throws(() => compile({ not: { 'a)': 1 } }), /column names cannot contain/);
+  assert.throws(() => compile({ 'name"': 'x' }), /column names cannot contain/);
+
+  // Spaces and JSON paths are fine
+  assert.deepEqual(compile({ or: [{ 'first name': 'x' }, { 'data->>plan': 'pro' }] }), [
+    ['or', 'first name.eq.x,data->>plan.eq.pro'],
+  ]);
+});
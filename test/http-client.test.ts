@@ -0,0 +1,94 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { HttpClient, HttpClientOptions } from '../src/http-client.js';
+
+// Answers each request with the next status of the script, then 200
+const statuses: number[] = [];
+let requests = 0;
+const server = http.createServer((request, response) => {
+  requests++;
+  response.writeHead(statuses.shift() ?? 200);
+  response.end('{}');
+});
+await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+after(() => server.close());
+
+const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+const OPTIONS: HttpClientOptions = { timeoutMs: 2000, retries: 0, retryBaseMs: 1, breakerThreshold: 2, breakerCooldownMs: 50 };
+
+function script(...next: number[]): void {
+  statuses.splice(0, statuses.length, ...next);
+  requests = 0;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test('retries idempotent requests on 5xx and 429', async () => {
+  script(503, 429);
+  const client = new HttpClient({ ...OPTIONS, retries: 2, breakerThreshold: 0 });
+
+  const response = await client.fetch(`${baseUrl}/rest/v1/todos`);
+  assert.equal(response.status, 200);
+  assert.equal(requests, 3);
+});
+
+test('does not retry POST requests that reached the server', async () => {
+  script(503);
+  const client = new HttpClient({ ...OPTIONS, retries: 2, breakerThreshold: 0 });
+
+  const response = await client.fetch(`${baseUrl}/rest/v1/todos`, { method: 'POST', body: '{}' });
+  assert.equal(response.status, 503);
+  assert.equal(requests, 1);
+});
+
+test('opens the circuit after consecutive failures and fails fast', async () => {
+  script(500, 500);
+  const client = new HttpClient(OPTIONS);
+
+  await client.fetch(`${baseUrl}/rest/v1/todos`);
+  await client.fetch(`${baseUrl}/rest/v1/todos`);
+  await assert.rejects(client.fetch(`${baseUrl}/rest/v1/todos`), /Circuit open for .* rest after 2 consecutive failures/);
+  assert.equal(requests, 2);
+  assert.equal(client.getCircuitStates()[0].state, 'open');
+
+  // Breakers are kept per service
+  assert.equal((await client.fetch(`${baseUrl}/auth/v1/health`)).status, 200);
+});
+
+test('closes the circuit when the half-open trial succeeds', async () => {
+  script(500, 500);
+  const client = new HttpClient(OPTIONS);
+  await client.fetch(`${baseUrl}/rest/v1/todos`);
+  await client.fetch(`${baseUrl}/rest/v1/todos`);
+  await sleep(60);
+
+  assert.equal(client.getCircuitStates()[0].state, 'half-open');
+  assert.equal((await client.fetch(`${baseUrl}/rest/v1/todos`)).status, 200);
+  assert.equal(client.getCircuitStates()[0].state, 'closed');
+});
+
+test('reopens the circuit when the half-open trial fails', async () => {
+  script(500, 500, 502);
+  const client = new HttpClient(OPTIONS);
+  await client.fetch(`${baseUrl}/rest/v1/todos`);
+  await client.fetch(`${baseUrl}/rest/v1/todos`);
+  await sleep(60);
+
+  assert.equal((await client.fetch(`${baseUrl}/rest/v1/todos`)).status, 502);
+  assert.equal(client.getCircuitStates()[0].state, 'open');
+});
+
+test('a rate-limited half-open trial lets the next request try again', async () => {
+  script(500, 500, 429);
+  const client = new HttpClient(OPTIONS);
+  await client.fetch(`${baseUrl}/rest/v1/todos`);
+  await client.fetch(`${baseUrl}/rest/v1/todos`);
+  await sleep(60);
+
+  assert.equal((await client.fetch(`${baseUrl}/rest/v1/todos`)).status, 429);
+  assert.equal(client.getCircuitStates()[0].state, 'half-open');
+  assert.equal((await client.fetch(`${baseUrl}/rest/v1/todos`)).status, 200);
+  assert.equal(client.getCircuitStates()[0].state, 'closed');
+});
@@ -0,0 +1,112 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer as createNetServer } from 'net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { HttpTransportOptions, HttpTransportServer } from '../src/http-server.js';
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'http-test', version: '1.0.0' } },
+};
+
+async function freePort(): Promise<number> {
+  const probe = createNetServer();
+  await new Promise<void>((resolve) => probe.listen(0, '127.0.0.1', () => resolve()));
+  const { port } = probe.address() as { port: number };
+  await new Promise<void>((resolve) => probe.close(() => resolve()));
+  return port;
+}
+
+// Start a transport whose sessions count how often their server was closed
+async function startServer(options: Partial<HttpTransportOptions>, createSession?: () => Server) {
+  const closed = { count: 0 };
+  const port = await freePort();
+  const http = new HttpTransportServer(createSession ?? (() => {
+    const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+    const close = server.close.bind(server);
+    server.close = async () => {
+      closed.count++;
+      await close();
+    };
+    return server;
+  }), {
+    host: '127.0.0.1',
+    port,
+    authToken: 'test-token',
+    sessionIdleTimeoutMs: 0,
+    maxBodyBytes: 1024 * 1024,
+    maxSessions: 0,
+    sharedSessions: false,
+    ...options,
+  });
+  await http.start();
+
+  const initialize = (accept = 'application/json, text/event-stream') => fetch(`http://127.0.0.1:${port}/mcp`, {
+    method: 'POST',
+    headers: { Authorization: 'Bearer test-token', 'Content-Type': 'application/json', Accept: accept },
+    body: JSON.stringify(INITIALIZE),
+  });
+  return { http, closed, initialize };
+}
+
+test('sessions beyond MCP_HTTP_MAX_SESSIONS are refused with 503', async () => {
+  const { http, initialize } = await startServer({ maxSessions: 1 });
+  try {
+    const first = await initialize();
+    assert.equal(first.status, 200);
+    assert.ok(first.headers.get('mcp-session-id'));
+    await first.text();
+
+    const second = await initialize();
+    assert.equal(second.status, 503);
+    assert.match((await second.json()).error.message, /limit of 1 is reached/);
+    assert.equal(http.getSessionCount(), 1);
+  } finally {
+    await http.close();
+  }
+});
+
+test('an initialize request rejected by the transport leaves no session behind', async () => {
+  const { http, closed, initialize } = await startServer({});
+  try {
+    const response = await initialize('application/json');
+    assert.equal(response.status, 406);
+    await response.text();
+
+    assert.equal(closed.count, 1);
+    assert.equal(http.getSessionCount(), 0);
+  } finally {
+    await http.close();
+  }
+});
+
+test('a session whose server fails to connect is closed and answered with 500', async () => {
+  let closed = 0;
+  const failing = {
+    connect: async () => {
+      throw new Error('connect failed');
+    },
+    close: async () => {
+      closed++;
+    },
+  } as unknown as Server;
+
+  const errors: unknown[] = [];
+  const consoleError = console.error;
+  console.error = (...args: unknown[]) => errors.push(args);
+  const { http, initialize } = await startServer({}, () => failing);
+  try {
+    const response = await initialize();
+    assert.equal(response.status, 500);
+    await response.text();
+
+    assert.equal(closed, 1);
+    assert.equal(http.getSessionCount(), 0);
+    assert.equal(errors.length, 1);
+  } finally {
+    console.error = consoleError;
+    await http.close();
+  }
+});
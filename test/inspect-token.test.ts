@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { handleAuthTool } from '../src/tools/auth.js';
+import { SupabaseClient } from '../src/supabase-client.js';
+import { mintSupabaseToken, signJwt } from '../src/jwt.js';
+
+const SECRET = 'super-secret-jwt-token-with-at-least-32-characters';
+
+// Just enough of a client for auth_inspect_token without a stack
+function stubClient(options: { jwtSecret?: string; sessionToken?: string } = {}): SupabaseClient {
+  return {
+    getConfig: () => ({ url: 'http://127.0.0.1:1', anonKey: 'anon', serviceRoleKey: 'service', jwtSecret: options.jwtSecret }),
+    getClient: () => ({
+      auth: {
+        getSession: async () => ({
+          data: { session: options.sessionToken ? { access_token: options.sessionToken } : null },
+        }),
+      },
+    }),
+  } as unknown as SupabaseClient;
+}
+
+async function inspect(client: SupabaseClient, args: Record<string, any>): Promise<Record<string, any>> {
+  const result = await handleAuthTool(client, 'auth_inspect_token', { check_postgrest: false, ...args });
+  return JSON.parse((result.content[0] as { text: string }).text);
+}
+
+test('reports the claims of a given token without echoing it', async () => {
+  const { token } = mintSupabaseToken(SECRET, {
+    sub: 'user-1',
+    email: 'a@example.com',
+    expiresIn: 600,
+    claims: { aal: 'aal2', amr: [{ method: 'totp' }], app_metadata: { provider: 'email' }, tenant: 't1' },
+  });
+  const report = await inspect(stubClient({ jwtSecret: SECRET }), { token });
+
+  assert.equal(report.success, true);
+  assert.equal(report.source, 'argument');
+  assert.equal(report.role, 'authenticated');
+  assert.equal(report.aal, 'aal2');
+  assert.equal(report.subject, 'user-1');
+  assert.equal(report.email, 'a@example.com');
+  assert.deepEqual(report.app_metadata, { provider: 'email' });
+  assert.deepEqual(report.other_claims, { tenant: 't1' });
+  assert.equal(report.expired, false);
+  assert.ok(report.expires_in_seconds > 590 && report.expires_in_seconds <= 600);
+  assert.equal(report.signature_valid, true);
+  assert.equal(JSON.stringify(report).includes(token), false);
+});
+
+test('an expired token still has a valid signature', async () => {
+  const token = signJwt({ role: 'authenticated', exp: Math.floor(Date.now() / 1000) - 60 }, SECRET);
+  const report = await inspect(stubClient({ jwtSecret: SECRET }), { token });
+
+  assert.equal(report.expired, true);
+  assert.equal(report.signature_valid, true);
+  assert.match(report.verification_error, /^Expired at/);
+});
+
+test('a token signed with another secret fails verification', async () => {
+  const token = signJwt({ role: 'service_role' }, 'another-secret');
+  const report = await inspect(stubClient({ jwtSecret: SECRET }), { token });
+
+  assert.equal(report.signature_valid, false);
+  assert.equal(report.verification_error, 'Invalid signature');
+});
+
+test('without a JWT secret the signature is not checked', async () => {
+  const report = await inspect(stubClient(), { token: signJwt({ role: 'anon' }, SECRET) });
+
+  assert.equal(report.signature_valid, null);
+  assert.match(report.note, /SUPABASE_JWT_SECRET/);
+});
+
+test('falls back to the signed-in session and fails without one', async () => {
+  const token = signJwt({ role: 'authenticated', sub: 'user-2' }, SECRET);
+
+  const fromSession = await inspect(stubClient({ sessionToken: token }), {});
+  assert.equal(fromSession.source, 'session');
+  assert.equal(fromSession.subject, 'user-2');
+
+  const signedOut = await inspect(stubClient(), {});
+  assert.equal(signedOut.success, false);
+  assert.equal(signedOut.error, 'No token given and no signed-in session');
+});
+
+test('rejects opaque keys', async () => {
+  const report = await inspect(stubClient(), { token: 'sb_secret_abc' });
+
+  assert.equal(report.success, false);
+  assert.equal(report.error, 'Not a JWT');
+});
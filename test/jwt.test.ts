@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeJwt, mintSupabaseToken, signJwt, verifyJwt } from '../src/jwt.js';
+import { createToolRegistry } from '../src/tools/index.js';
+
+const SECRET = 'super-secret-jwt-token-with-at-least-32-characters';
+
+test('signed tokens decode and verify', () => {
+  const token = signJwt({ role: 'anon', iss: 'supabase' }, SECRET);
+
+  assert.deepEqual(decodeJwt(token)?.header, { alg: 'HS256', typ: 'JWT' });
+  assert.deepEqual(decodeJwt(token)?.claims, { role: 'anon', iss: 'supabase' });
+  assert.equal(verifyJwt(token, SECRET).valid, true);
+});
+
+test('decodeJwt returns null for anything but a JWT', () => {
+  assert.equal(decodeJwt('sb_publishable_abc'), null);
+  assert.equal(decodeJwt('a.b.c'), null);
+});
+
+test('verifyJwt rejects a wrong secret or tampered claims', () => {
+  const token = signJwt({ role: 'anon' }, SECRET);
+  const [header, , signature] = token.split('.');
+  const tampered = `${header}.${Buffer.from(JSON.stringify({ role: 'service_role' })).toString('base64url')}.${signature}`;
+
+  assert.equal(verifyJwt(token, 'another-secret').error, 'Invalid signature');
+  assert.equal(verifyJwt(tampered, SECRET).error, 'Invalid signature');
+});
+
+test('verifyJwt checks exp and nbf after the signature', () => {
+  const now = Date.parse('2024-05-01T00:00:00Z');
+  const seconds = now / 1000;
+
+  assert.match(verifyJwt(signJwt({ exp: seconds - 1 }, SECRET), SECRET, now).error!, /^Expired at 2024-04-30T23:59:59/);
+  assert.match(verifyJwt(signJwt({ nbf: seconds + 60 }, SECRET), SECRET, now).error!, /^Not valid before/);
+  assert.equal(verifyJwt(signJwt({ exp: seconds + 60 }, SECRET), SECRET, now).valid, true);
+});
+
+test('verifyJwt only accepts HS256', () => {
+  const header = Buffer.from(JSON.stringify({ alg: 'none' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify({ role: 'service_role' })).toString('base64url');
+
+  assert.match(verifyJwt(`${header}.${payload}.`, SECRET).error!, /Unsupported algorithm none/);
+});
+
+test('mintSupabaseToken shapes tokens like GoTrue sessions', () => {
+  const { token, claims } = mintSupabaseToken(SECRET, { sub: 'user-1', email: 'a@example.com', expiresIn: 3600 });
+
+  assert.equal(claims.role, 'authenticated');
+  assert.equal(claims.aud, 'authenticated');
+  assert.equal(claims.iss, 'supabase');
+  assert.equal(claims.sub, 'user-1');
+  assert.equal(claims.exp, claims.iat! + 3600);
+  assert.deepEqual(verifyJwt(token, SECRET).decoded?.claims, claims);
+});
+
+test('mintSupabaseToken lets explicit options win over claims', () => {
+  const { claims } = mintSupabaseToken(SECRET, {
+    role: 'reporting',
+    claims: { role: 'service_role', app_metadata: { tenant: 't1' } },
+  });
+
+  assert.equal(claims.role, 'reporting');
+  assert.equal(claims.aud, undefined);
+  assert.deepEqual(claims.app_metadata, { tenant: 't1' });
+});
+
+test('mintSupabaseToken omits exp for a zero lifetime', () => {
+  const { claims } = mintSupabaseToken(SECRET, { role: 'service_role', expiresIn: 0 });
+
+  assert.equal('exp' in claims, false);
+});
+
+test('auth_mint_token is unavailable outside full safety mode', () => {
+  assert.equal(createToolRegistry().get('auth_mint_token')?.safety, 'destructive');
+});
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { describePostgresError, quoteIdentifier, singleStatement, splitStatements } from '../src/postgres.js';
+
+test('quoteIdentifier quotes each part of a qualified name', () => {
+  assert.equal(quoteIdentifier('orders'), '"orders"');
+  assert.equal(quoteIdentifier('public.orders'), '"public"."orders"');
+  assert.equal(quoteIdentifier('say "hi"'), '"say ""hi"""');
+});
+
+test('quoteIdentifier keeps properly quoted parts', () => {
+  assert.equal(quoteIdentifier('"My Schema"."a.b"'), '"My Schema"."a.b"');
+});
+
+test('quoteIdentifier never leaves an unterminated quote open', () => {
+  assert.equal(quoteIdentifier('"orders; DROP TABLE x; --'), '"""orders; DROP TABLE x; --"');
+  assert.equal(quoteIdentifier('1); DROP TABLE x; --'), '"1); DROP TABLE x; --"');
+});
+
+test('splitStatements ignores semicolons in literals, identifiers and comments', () => {
+  assert.deepEqual(splitStatements("select ';', 'it''s; fine', E'\\'; still', \"a;b\""), [
+    "select ';', 'it''s; fine', E'\\'; still', \"a;b\"",
+  ]);
+  assert.deepEqual(splitStatements('select 1 -- ; drop\n, 2 /* ; /* nested ; */ ; */'), ['select 1  \n, 2']);
+});
+
+test('splitStatements keeps dollar-quoted bodies whole', () => {
+  assert.deepEqual(splitStatements('select $$a; b$$; select $fn$ x; $$ ; $fn$'), [
+    'select $$a; b$$',
+    'select $fn$ x; $$ ; $fn$',
+  ]);
+  // $1 is a parameter and a$b an identifier, not the start of a dollar quote
+  assert.deepEqual(splitStatements('select $1; select a$b; x'), ['select $1', 'select a$b', 'x']);
+});
+
+test('splitStatements drops empty and comment-only statements', () => {
+  assert.deepEqual(splitStatements('select 1;'), ['select 1']);
+  assert.deepEqual(splitStatements(';; /* only a comment */ ; -- and another'), []);
+  assert.deepEqual(splitStatements("select 1; drop table orders; --"), ['select 1', 'drop table orders']);
+});
+
+test('singleStatement forces the extended protocol', () => {
+  assert.deepEqual(singleStatement('select $1', [1]), { text: 'select $1', values: [1], queryMode: 'extended' });
+  assert.deepEqual(singleStatement('select 1;'), { text: 'select 1;', values: [], queryMode: 'extended' });
+});
+
+test('singleStatement rejects a second statement', () => {
+  assert.throws(() => singleStatement('select 1; drop table orders'), /Expected a single SQL statement, got 2/);
+  assert.throws(() => singleStatement("select 'x'; commit; delete from orders"), /got 3/);
+  assert.doesNotThrow(() => singleStatement("select ';' -- ; drop table orders"));
+});
+
+test('describePostgresError keeps the fields that help fix the query', () => {
+  const error = Object.assign(new Error('column "nme" does not exist'), {
+    code: '42703',
+    detail: undefined,
+    hint: 'Perhaps you meant to reference the column "orders.name".',
+    position: '8',
+  });
+
+  assert.deepEqual(describePostgresError(error), {
+    error: 'column "nme" does not exist',
+    code: '42703',
+    detail: undefined,
+    hint: 'Perhaps you meant to reference the column "orders.name".',
+    position: '8',
+  });
+});
+
+test('describePostgresError reports other errors by message', () => {
+  assert.deepEqual(describePostgresError(new Error('connect ECONNREFUSED')), { error: 'connect ECONNREFUSED' });
+  assert.deepEqual(describePostgresError('timeout'), { error: 'timeout' });
+});
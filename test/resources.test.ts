@@ -0,0 +1,88 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import path from 'path';
+import os from 'os';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../src/server.js';
+import { SafetyPolicy } from '../src/safety.js';
+import { SupabaseClient } from '../src/supabase-client.js';
+import { createToolRegistry } from '../src/tools/index.js';
+
+// The audit log is created on first use, so point it at a scratch file first
+const directory = mkdtempSync(path.join(os.tmpdir(), 'resources-test-'));
+const auditFile = path.join(directory, 'audit.jsonl');
+process.env.MCP_AUDIT_LOG_FILE = auditFile;
+
+after(() => rmSync(directory, { recursive: true, force: true }));
+
+// Storage answers with one bucket; everything else is unreachable
+function stubClient(): SupabaseClient {
+  return {
+    getProfileName: () => 'default',
+    getCurrentUser: () => null,
+    getConfig: () => ({ url: 'http://127.0.0.1:1', anonKey: 'anon', serviceRoleKey: 'service' }),
+    getAdminClient: () => ({
+      storage: {
+        listBuckets: async () => ({ data: [{ name: 'avatars', public: false, created_at: '2024-05-01T00:00:00Z' }], error: null }),
+        from: () => ({ list: async () => ({ data: [], error: null }) }),
+      },
+    }),
+  } as unknown as SupabaseClient;
+}
+
+function policy(deniedTools: RegExp[]): SafetyPolicy {
+  return new SafetyPolicy({ mode: 'full', allowedTools: [], deniedTools, allowedTables: [], deniedTables: [] });
+}
+
+async function connect(safety: SafetyPolicy): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer(stubClient(), createToolRegistry(), safety).connect(serverTransport);
+
+  const client = new Client({ name: 'resources-test', version: '1.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
+
+function auditEntries(): Array<Record<string, any>> {
+  return readFileSync(auditFile, 'utf-8').trim().split('\n').map((line) => JSON.parse(line));
+}
+
+test('storage and function resources follow the tool allow and deny lists', async () => {
+  const open = await connect(policy([]));
+  const openUris = (await open.listResources()).resources.map((resource) => resource.uri);
+  assert.ok(openUris.includes('supabase://buckets'));
+  assert.ok(openUris.includes('supabase://storage/avatars'));
+  await open.close();
+
+  const client = await connect(policy([/^storage_/, /^edge_list_functions$/]));
+  const uris = (await client.listResources()).resources.map((resource) => resource.uri);
+  const templates = (await client.listResourceTemplates()).resourceTemplates.map((template) => template.uriTemplate);
+
+  assert.deepEqual(uris, ['supabase://tables', 'supabase://views', 'supabase://policies']);
+  assert.equal(templates.some((template) => /storage|function/.test(template)), false);
+  await assert.rejects(
+    client.readResource({ uri: 'supabase://buckets' }),
+    /Resource supabase:\/\/buckets is disabled: tool 'storage_list_buckets'/
+  );
+  await assert.rejects(client.readResource({ uri: 'supabase://storage/avatars/a/b' }), /tool 'storage_list_files'/);
+  await assert.rejects(client.readResource({ uri: 'supabase://function/hello' }), /tool 'edge_list_functions'/);
+  await client.close();
+});
+
+test('resource reads are audited, including rejected ones', async () => {
+  const client = await connect(policy([/^storage_list_files$/]));
+  await client.readResource({ uri: 'supabase://buckets' });
+  await assert.rejects(client.readResource({ uri: 'supabase://storage/avatars' }));
+  await client.close();
+
+  const [read, rejected] = auditEntries().slice(-2);
+  assert.equal(read.tool, 'resources/read');
+  assert.equal(read.client, 'resources-test');
+  assert.deepEqual(read.arguments, { uri: 'supabase://buckets' });
+  assert.equal(read.success, true);
+  assert.deepEqual(rejected.arguments, { uri: 'supabase://storage/avatars' });
+  assert.equal(rejected.success, false);
+  assert.match(rejected.error, /tool 'storage_list_files' is not allowed/);
+});
@@ -0,0 +1,104 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { handleSecurityTool } from '../src/tools/security.js';
+import { PostgresConnection } from '../src/postgres.js';
+import { SupabaseClient } from '../src/supabase-client.js';
+import { createToolRegistry } from '../src/tools/index.js';
+
+// Nothing listens here: every case below must be rejected before a query is sent
+const postgres = new PostgresConnection('postgresql://postgres@127.0.0.1:1/postgres', {
+  poolSize: 1,
+  statementTimeoutMs: 0,
+  connectTimeoutMs: 1000,
+});
+after(() => postgres.close());
+
+const client = { getPostgres: () => postgres } as unknown as SupabaseClient;
+
+async function call(name: string, args: Record<string, any>): Promise<Record<string, any>> {
+  const result = await handleSecurityTool(client, name, args);
+  return JSON.parse((result.content[0] as { text: string }).text);
+}
+
+function testPolicy(testQuery: string, userContext: Record<string, any> = {}) {
+  return call('security_test_policy', { table_name: 'orders', test_query: testQuery, user_context: userContext });
+}
+
+test('security_test_policy only simulates the API roles', async () => {
+  for (const role of ['postgres', 'supabase_admin', 'authenticator']) {
+    const result = await testPolicy('select 1', { role });
+    assert.equal(result.success, false);
+    assert.equal(result.error, `Cannot simulate role '${role}'; use one of anon, authenticated, service_role`);
+  }
+});
+
+test('security_test_policy rejects statements that escape the rollback or the role', async () => {
+  const cases: Array<[string, RegExp]> = [
+    ['COMMIT', /COMMIT would escape/],
+    ['/* hidden */ -- twice\n  reset role', /RESET would escape/],
+    ['start  transaction', /START TRANSACTION would escape/],
+    ['set role postgres', /SET would escape/],
+    ["select set_config('role', 'postgres', true)", /set_config on the role/],
+  ];
+
+  for (const [query, message] of cases) {
+    const result = await testPolicy(query);
+    assert.equal(result.success, false, query);
+    assert.match(result.error, message, query);
+  }
+});
+
+test('security_test_policy rejects effects a rollback does not undo', async () => {
+  const cases: Array<[string, RegExp]> = [
+    ["COPY (SELECT 1) TO PROGRAM 'curl example.com'", /COPY has effects/],
+    ["do $$ begin execute 'select ' || 'nextval(1)'; end $$", /DO has effects/],
+    ["notify orders, 'x'", /NOTIFY has effects/],
+    ["select nextval('orders_id_seq')", /nextval\(\) has effects/],
+    ['select pg_terminate_backend(pid) from pg_stat_activity', /pg_terminate_backend\(\) has effects/],
+    ["select dblink_exec('host=x', 'drop table orders')", /dblink_exec\(\) has effects/],
+    ["select pg_notify('orders', 'x')", /pg_notify\(\) has effects/],
+    ['select pg_catalog."setval" (1, 2)', /setval\(\) has effects/],
+    ['select pg_advisory_lock(1)', /pg_advisory_lock\(\) has effects/],
+  ];
+
+  for (const [query, message] of cases) {
+    const result = await testPolicy(query);
+    assert.equal(result.success, false, query);
+    assert.match(result.error, message, query);
+  }
+});
+
+test('security_test_policy runs only one statement', async () => {
+  const result = await testPolicy('select 1; delete from orders');
+
+  assert.equal(result.success, false);
+  assert.equal(result.error, 'Expected a single SQL statement, got 2');
+});
+
+test('security_create_policy cannot append a statement through its expressions', async () => {
+  const result = await call('security_create_policy', {
+    table_name: 'orders',
+    policy_name: 'owner',
+    command: 'SELECT',
+    using_expression: 'true); DROP TABLE public.orders; --',
+  });
+
+  assert.equal(result.success, false);
+  assert.equal(result.error, 'Expected a single SQL statement, got 2');
+});
+
+test('security_test_policy is a write tool', () => {
+  assert.equal(createToolRegistry().get('security_test_policy')?.safety, 'write');
+});
+
+test('security_test_policy lets ordinary queries through to the database', async () => {
+  for (const query of [
+    'select * from orders where note = \'COPY; nextval\'',
+    "-- set role postgres\nselect count(*) from orders",
+    'update orders set settled = true where id = 1',
+    "select current_setting('request.jwt.claims', true)",
+  ]) {
+    const result = await testPolicy(query, { role: 'anon' });
+    assert.match(result.error, /ECONNREFUSED/, query);
+  }
+});
@@ -0,0 +1,126 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import path from 'path';
+import os from 'os';
+import { createPrivateSessionStore, SESSION_STORAGE_KEY, SessionStore } from '../src/session-store.js';
+
+function session(userId: string, email: string, accessToken = 'access') {
+  return { access_token: accessToken, refresh_token: 'refresh', expires_at: 1714521600, user: { id: userId, email } };
+}
+
+function withDirectory(fn: (directory: string) => void): void {
+  const directory = mkdtempSync(path.join(os.tmpdir(), 'session-store-test-'));
+  try {
+    fn(directory);
+  } finally {
+    rmSync(directory, { recursive: true, force: true });
+  }
+}
+
+test('sign-ins are saved under the email and refreshes keep the name', () => {
+  const store = new SessionStore({ filePath: '/nonexistent/sessions.enc', scope: 'process' });
+  const storage = store.storage('default');
+
+  storage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session('u1', 'a@example.com')));
+  storage.nameNextSession('admin');
+  storage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session('u2', 'b@example.com')));
+  storage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session('u2', 'b@example.com', 'refreshed')));
+
+  assert.deepEqual(store.list('default').map((summary) => summary.name), ['a@example.com', 'admin']);
+  assert.equal(store.get('default', 'admin')?.access_token, 'refreshed');
+  assert.equal(store.getActive('default'), 'admin');
+  assert.equal(JSON.parse(storage.getItem(SESSION_STORAGE_KEY)!).user.email, 'b@example.com');
+});
+
+test('list leaves tokens out', () => {
+  const store = new SessionStore({ filePath: '/nonexistent/sessions.enc', scope: 'process' });
+  store.save('default', 'a@example.com', session('u1', 'a@example.com'));
+
+  assert.deepEqual(store.list('default'), [{
+    name: 'a@example.com',
+    user_id: 'u1',
+    email: 'a@example.com',
+    expires_at: '2024-05-01T00:00:00.000Z',
+    saved_at: store.list('default')[0].saved_at,
+  }]);
+  assert.deepEqual(store.list('staging'), []);
+});
+
+test('signing out removes the held session only', () => {
+  const store = new SessionStore({ filePath: '/nonexistent/sessions.enc', scope: 'process' });
+  store.save('default', 'other', session('u2', 'b@example.com'));
+  const storage = store.storage('default');
+  storage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session('u1', 'a@example.com')));
+
+  storage.removeItem(SESSION_STORAGE_KEY);
+
+  assert.equal(storage.getItem(SESSION_STORAGE_KEY), null);
+  assert.equal(store.getActive('default'), null);
+  assert.deepEqual(store.list('default').map((summary) => summary.name), ['other']);
+});
+
+test('auxiliary keys stay in memory and never reach the store', () => {
+  const store = new SessionStore({ filePath: '/nonexistent/sessions.enc', scope: 'process' });
+  const storage = store.storage('default');
+
+  storage.setItem(`${SESSION_STORAGE_KEY}-code-verifier`, 'verifier');
+
+  assert.equal(storage.getItem(`${SESSION_STORAGE_KEY}-code-verifier`), 'verifier');
+  assert.deepEqual(store.list('default'), []);
+});
+
+test('a new client of the process store starts on the active session', () => {
+  const store = new SessionStore({ filePath: '/nonexistent/sessions.enc', scope: 'process' });
+  store.save('default', 'a@example.com', session('u1', 'a@example.com'));
+
+  assert.equal(store.storage('default').getCurrentName(), 'a@example.com');
+});
+
+test('private stores share nothing with other clients', () => {
+  const first = createPrivateSessionStore();
+  const second = createPrivateSessionStore();
+  first.storage('default').setItem(SESSION_STORAGE_KEY, JSON.stringify(session('u1', 'a@example.com')));
+
+  assert.equal(first.isPrivate(), true);
+  assert.equal(first.isPersistent(), false);
+  assert.equal(second.storage('default').getCurrentName(), null);
+  assert.deepEqual(second.list('default'), []);
+});
+
+test('persisted sessions are encrypted and restored with the same key', () => {
+  withDirectory((directory) => {
+    const filePath = path.join(directory, 'sessions.enc');
+    const store = new SessionStore({ filePath, passphrase: 'key', scope: 'process' });
+    store.save('default', 'a@example.com', session('u1', 'a@example.com', 'secret-access-token'));
+
+    assert.equal(store.isPersistent(), true);
+    assert.doesNotMatch(readFileSync(filePath, 'utf-8'), /secret-access-token|a@example\.com/);
+
+    const restored = new SessionStore({ filePath, passphrase: 'key', scope: 'process' });
+    assert.equal(restored.getActive('default'), 'a@example.com');
+    assert.equal(restored.get('default', 'a@example.com')?.access_token, 'secret-access-token');
+  });
+});
+
+test('a wrong key disables persistence instead of overwriting the file', () => {
+  withDirectory((directory) => {
+    const filePath = path.join(directory, 'sessions.enc');
+    new SessionStore({ filePath, passphrase: 'key', scope: 'process' }).save('default', 'a', session('u1', 'a@example.com'));
+    const original = readFileSync(filePath, 'utf-8');
+
+    const errors: unknown[] = [];
+    const consoleError = console.error;
+    console.error = (...args: unknown[]) => errors.push(args);
+    try {
+      const store = new SessionStore({ filePath, passphrase: 'wrong', scope: 'process' });
+      store.save('default', 'b', session('u2', 'b@example.com'));
+      assert.equal(store.isPersistent(), false);
+    } finally {
+      console.error = consoleError;
+    }
+
+    assert.equal(errors.length, 1);
+    assert.equal(readFileSync(filePath, 'utf-8'), original);
+  });
+});